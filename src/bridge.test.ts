@@ -0,0 +1,308 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ShapeX } from "./shapex.ts";
+import { bridge, type BridgePort } from "./bridge.ts";
+
+/**
+ * Waits for the messages posted so far to be delivered.
+ */
+const delivered = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+const channels: InstanceType<typeof MessageChannel>[] = [];
+
+const channel = () => {
+  const created = new MessageChannel();
+  channels.push(created);
+
+  return created;
+};
+
+const counterApp = () => {
+  const $ = ShapeX({ count: 0, local: "" });
+
+  $.subscribe("inc", (state, by: number | undefined) => ({
+    state: { ...state, count: state.count + (by ?? 1) },
+  }));
+
+  return $;
+};
+
+describe("bridge", () => {
+  afterEach(() => {
+    for (const { port1, port2 } of channels.splice(0)) {
+      port1.close();
+      port2.close();
+    }
+  });
+
+  it("forwards the selected events", async () => {
+    const { port1, port2 } = channel();
+    const main = ShapeX({});
+    const worker = ShapeX({});
+    const cb = vi.fn();
+
+    worker.subscribe("todo/add", cb);
+    worker.subscribe("todo/remove", cb);
+    worker.subscribe("other", cb);
+    bridge(main, port1, { forward: ["todo/*"] });
+    bridge(worker, port2);
+
+    main.dispatch("todo/add", { title: "Milk" });
+    main.dispatch("todo/remove", 1);
+    main.dispatch("other");
+    await delivered();
+
+    expect(cb.mock.calls.map(([, data]) => data)).toEqual([
+      { title: "Milk" },
+      1,
+    ]);
+  });
+
+  it("doesn't send forwarded events back", async () => {
+    const { port1, port2 } = channel();
+    const main = counterApp();
+    const worker = counterApp();
+
+    bridge(main, port1, { forward: ["inc"] });
+    bridge(worker, port2, { forward: ["inc"] });
+
+    main.dispatch("inc");
+    await delivered();
+    worker.dispatch("inc", 2);
+    await delivered();
+
+    expect(main.state().count).toBe(3);
+    expect(worker.state().count).toBe(3);
+  });
+
+  it("forwards events dispatched while handling received ones", async () => {
+    const { port1, port2 } = channel();
+    const main = ShapeX({ result: 0 });
+    const worker = ShapeX({});
+
+    main.subscribe("computed", (state, result: number | undefined) => ({
+      state: { ...state, result: result! },
+    }));
+    worker.subscribe("compute", (_, n: number | undefined) => ({
+      dispatch: { to: "computed", with: n! * 2 },
+    }));
+    bridge(main, port1, { forward: ["compute"] });
+    bridge(worker, port2, { forward: ["computed"] });
+
+    main.dispatch("compute", 21);
+    await delivered();
+
+    expect(main.state().result).toBe(42);
+  });
+
+  it("replicates state one way", async () => {
+    const { port1, port2 } = channel();
+    const main = counterApp();
+    const worker = counterApp();
+
+    bridge(main, port1, { state: "receive" });
+    bridge(worker, port2, { state: "send" });
+
+    worker.dispatch("inc", 5);
+    await delivered();
+    expect(main.state().count).toBe(5);
+
+    main.dispatch("inc");
+    await delivered();
+    expect(worker.state().count).toBe(5);
+  });
+
+  it("replicates state both ways without echoing it back", async () => {
+    const { port1, port2 } = channel();
+    const main = counterApp();
+    const worker = counterApp();
+    const onMain = vi.fn();
+    const onWorker = vi.fn();
+
+    main.subscribe("$.count", onMain);
+    worker.subscribe("$.count", onWorker);
+    bridge(main, port1, { state: "both" });
+    bridge(worker, port2, { state: "both" });
+
+    main.dispatch("inc");
+    await delivered();
+    worker.dispatch("inc");
+    await delivered();
+
+    expect(main.state().count).toBe(2);
+    expect(worker.state().count).toBe(2);
+    expect(onMain).toHaveBeenCalledTimes(2);
+    expect(onWorker).toHaveBeenCalledTimes(2);
+  });
+
+  it("replicates changes that state listeners make to received changes", async () => {
+    const { port1, port2 } = channel();
+    const a = ShapeX({ x: 0, y: 0 });
+    const b = ShapeX({ x: 0, y: 0 });
+
+    b.subscribe("$.x", (state) => ({ state: { ...state, y: state.x * 10 } }));
+    bridge(a, port1, { state: "both" });
+    bridge(b, port2, { state: "both" });
+
+    a.setState({ x: 1, y: 0 });
+    await delivered();
+
+    expect(a.state()).toEqual({ x: 1, y: 10 });
+    expect(b.state()).toEqual({ x: 1, y: 10 });
+  });
+
+  it("notifies state listeners of replicated changes", async () => {
+    const { port1, port2 } = channel();
+    const main = counterApp();
+    const worker = counterApp();
+    const cb = vi.fn();
+
+    main.subscribe("$.count", cb);
+    bridge(main, port1, { state: "receive" });
+    bridge(worker, port2, { state: "send" });
+
+    worker.dispatch("inc");
+    await delivered();
+
+    expect(cb).toHaveBeenCalledWith(
+      expect.anything(),
+      { path: "$.count", kind: "changed", oldValue: 0, newValue: 1 },
+      expect.anything(),
+    );
+  });
+
+  it("replicates only the given paths", async () => {
+    const { port1, port2 } = channel();
+    const main = counterApp();
+    const worker = counterApp();
+
+    worker.subscribe("local", (state, local: string | undefined) => ({
+      state: { ...state, local: local! },
+    }));
+    bridge(main, port1, { state: "receive" });
+    bridge(worker, port2, { state: "send", paths: ["$.count"] });
+
+    worker.dispatch("inc");
+    worker.dispatch("local", "worker");
+    await delivered();
+
+    expect(main.state()).toEqual({ count: 1, local: "" });
+  });
+
+  it("ignores received changes outside the given paths", async () => {
+    const { port1, port2 } = channel();
+    const main = counterApp();
+    const worker = ShapeX({ count: 0, local: "" });
+
+    bridge(main, port1, { state: "receive", paths: ["$.count"] });
+    bridge(worker, port2, { state: "send" });
+
+    worker.setState({ count: 2, local: "worker" });
+    await delivered();
+
+    expect(main.state()).toEqual({ count: 2, local: "" });
+  });
+
+  it("replicates removed paths", async () => {
+    const { port1, port2 } = channel();
+    const main = ShapeX<{ items: Record<string, number> }>({
+      items: { a: 1, b: 2 },
+    });
+    const worker = ShapeX<{ items: Record<string, number> }>({
+      items: { a: 1, b: 2 },
+    });
+
+    bridge(main, port1, { state: "receive" });
+    bridge(worker, port2, { state: "send" });
+
+    worker.setState({ items: { a: 1 } });
+    await delivered();
+
+    expect(main.state()).toEqual({ items: { a: 1 } });
+  });
+
+  it("syncs the whole replicated state", async () => {
+    const { port1, port2 } = channel();
+    const main = counterApp();
+    const worker = ShapeX({ count: 10, local: "worker" });
+
+    bridge(main, port1, { state: "receive" });
+    bridge(worker, port2, { state: "send", paths: ["$.count"] }).sync();
+    await delivered();
+
+    expect(main.state()).toEqual({ count: 10, local: "" });
+  });
+
+  it("ignores messages it didn't send", async () => {
+    const { port1, port2 } = channel();
+    const main = counterApp();
+
+    bridge(main, port1, { state: "receive" });
+    port2.postMessage({ type: "something", count: 5 });
+    port2.postMessage(null);
+    await delivered();
+
+    expect(main.state().count).toBe(0);
+  });
+
+  it("closes", async () => {
+    const { port1, port2 } = channel();
+    const main = counterApp();
+    const worker = counterApp();
+    const cb = vi.fn();
+
+    worker.subscribe("inc", cb);
+    const connection = bridge(main, port1, {
+      forward: ["inc"],
+      state: "both",
+    });
+    bridge(worker, port2, { state: "send" });
+
+    connection.close();
+    main.dispatch("inc");
+    worker.setState({ count: 9, local: "" });
+    await delivered();
+
+    expect(cb).not.toHaveBeenCalled();
+    expect(main.state().count).toBe(1);
+  });
+
+  it("works over ports with on and off", () => {
+    const listeners: Set<(data: unknown) => void> = new Set();
+    const port: BridgePort = {
+      postMessage: vi.fn(),
+      on: (_, listener) => listeners.add(listener),
+      off: (_, listener) => listeners.delete(listener),
+    };
+    const $ = counterApp();
+
+    const connection = bridge($, port, { forward: ["inc"] });
+    for (const listener of listeners) {
+      listener({ type: "shapex/event", event: "inc", data: 2 });
+    }
+
+    expect($.state().count).toBe(2);
+    expect(port.postMessage).not.toHaveBeenCalled();
+
+    connection.close();
+    expect(listeners.size).toBe(0);
+  });
+
+  it("logs messages that can't be posted", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const port: BridgePort = {
+      postMessage: () => {
+        throw new Error("Can't be cloned");
+      },
+    };
+    const $ = counterApp();
+
+    bridge($, port, { forward: ["inc"] });
+    $.dispatch("inc");
+
+    expect(error).toHaveBeenCalledWith(
+      "ShapeX: posting to the bridge failed.",
+      expect.any(Error),
+    );
+    error.mockRestore();
+  });
+});
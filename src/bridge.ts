@@ -0,0 +1,238 @@
+import type { ShapeXInstance } from "./shapex.ts";
+import { applyPatches, diffPatches, within, type StatePatch } from "./diff.ts";
+import { patternTrie } from "./patterns.ts";
+
+/**
+ * Anything messages can be posted to and received from, such as a
+ * `MessagePort`, a Web Worker, or a `worker_threads` Worker or its
+ * `parentPort`. Messages are received either through
+ * `addEventListener`, or through `on` when a port has no such method.
+ */
+export type BridgePort = {
+  postMessage: (message: unknown) => void;
+  start?: () => void;
+} & (
+  | {
+      addEventListener: (
+        type: "message",
+        listener: (event: { data: unknown }) => void,
+      ) => void;
+      removeEventListener: (
+        type: "message",
+        listener: (event: { data: unknown }) => void,
+      ) => void;
+    }
+  | {
+      on?: (type: "message", listener: (data: unknown) => void) => void;
+      off?: (type: "message", listener: (data: unknown) => void) => void;
+    }
+);
+
+/**
+ * Options for bridging an instance to another.
+ */
+export type BridgeOptions = {
+  /**
+   * The events, or patterns of events, to forward to the other side.
+   */
+  forward?: string[];
+  /**
+   * Which way state changes are replicated: sent to the other side,
+   * received from it, or both. Not replicated if not given.
+   */
+  state?: "send" | "receive" | "both";
+  /**
+   * The `$.` paths of state to replicate, replicating the whole state
+   * if not given. Received changes outside of them are ignored.
+   */
+  paths?: string[];
+};
+
+/**
+ * A connection between two instances.
+ */
+export type Bridge = {
+  /**
+   * Send the whole replicated state to the other side, e.g. once it
+   * is ready.
+   */
+  sync: () => void;
+  /**
+   * Stop forwarding events and replicating state.
+   */
+  close: () => void;
+};
+
+/**
+ * A message sent between two bridged instances.
+ */
+export type BridgeMessage =
+  | { type: "shapex/event"; event: string; data: unknown }
+  | { type: "shapex/patch"; patches: StatePatch[] };
+
+/**
+ * Whether a message is one sent by a bridge, as other messages may go
+ * over the same port.
+ *
+ * @param {unknown} message
+ * @returns {boolean}
+ */
+const isBridgeMessage = (message: unknown): message is BridgeMessage => {
+  const type = (message as { type?: unknown } | null)?.type;
+
+  return type === "shapex/event" || type === "shapex/patch";
+};
+
+/**
+ * Bridges an instance to another over a port, such as between the main
+ * thread and a worker. The selected events are forwarded to the other
+ * side, and state changes are replicated as patches of the changed
+ * paths. Whatever is received from the other side is not sent back to
+ * it, so both sides can forward the same events and replicate state
+ * both ways.
+ *
+ * @param {ShapeXInstance<T, any, any>} app The instance to bridge.
+ * @param {BridgePort} port The port to the other side.
+ * @param {BridgeOptions} options Options for bridging.
+ * @returns {Bridge} The bridge.
+ */
+export const bridge = <T>(
+  app: ShapeXInstance<T, any, any>,
+  port: BridgePort,
+  options: BridgeOptions = {},
+): Bridge => {
+  const forwarded = patternTrie();
+  const paths = options.paths ?? ["$"];
+  const sending = options.state === "send" || options.state === "both";
+  const receiving = options.state === "receive" || options.state === "both";
+  let _last = app.state();
+  let _receiving = false;
+  // The state resulting from applying the patches received last.
+  let _applied: T | undefined;
+
+  for (const event of options.forward ?? []) {
+    forwarded.add(event);
+  }
+
+  /**
+   * Posts a message to the other side, logging it if it can't be
+   * posted, e.g. when its data can't be cloned.
+   *
+   * @param {BridgeMessage} message
+   */
+  const post = (message: BridgeMessage): void => {
+    try {
+      port.postMessage(message);
+    } catch (error) {
+      console.error("ShapeX: posting to the bridge failed.", error);
+    }
+  };
+
+  const stopObserving = app.observe({
+    dispatch: (record) => {
+      // Events received from the other side are not sent back to it.
+      if (_receiving && record.parent === undefined) {
+        return;
+      }
+
+      if (forwarded.match(record.event).length > 0) {
+        post({ type: "shapex/event", event: record.event, data: record.data });
+      }
+    },
+    commit: (record) => {
+      const previous = _last;
+      _last = record.state;
+
+      // Patches received from the other side are not sent back to it,
+      // while the changes state listeners make in turn are.
+      if (!sending || record.state === _applied) {
+        return;
+      }
+
+      const changed = diffPatches(previous, record.state, paths);
+
+      if (changed.length > 0) {
+        post({ type: "shapex/patch", patches: changed });
+      }
+    },
+  });
+
+  /**
+   * Handles a message from the other side.
+   *
+   * @param {unknown} message
+   */
+  const receive = (message: unknown): void => {
+    if (!isBridgeMessage(message)) {
+      return;
+    }
+
+    if (message.type === "shapex/patch" && !receiving) {
+      return;
+    }
+
+    if (message.type === "shapex/event") {
+      _receiving = true;
+
+      try {
+        app.dispatch(message.event, message.data);
+      } finally {
+        _receiving = false;
+      }
+
+      return;
+    }
+
+    const patches = message.patches.filter((patch) => {
+      return paths.some((path) => within(patch.path, path));
+    });
+
+    if (patches.length === 0) {
+      return;
+    }
+
+    _applied = applyPatches(app.state(), patches);
+
+    try {
+      app.setState(_applied);
+    } finally {
+      _applied = undefined;
+    }
+  };
+
+  const onEvent = (event: { data: unknown }) => receive(event.data);
+
+  if ("addEventListener" in port) {
+    port.addEventListener("message", onEvent);
+  } else {
+    port.on?.("message", receive);
+  }
+
+  port.start?.();
+
+  /**
+   * Sends the whole replicated state to the other side.
+   */
+  const sync = (): void => {
+    const changed = diffPatches(undefined, app.state(), paths);
+
+    if (changed.length > 0) {
+      post({ type: "shapex/patch", patches: changed });
+    }
+  };
+
+  /**
+   * Stops forwarding events and replicating state.
+   */
+  const close = (): void => {
+    stopObserving();
+
+    if ("removeEventListener" in port) {
+      port.removeEventListener("message", onEvent);
+    } else {
+      port.off?.("message", receive);
+    }
+  };
+
+  return { sync, close };
+};
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from "vitest";
+import { ShapeX } from "./shapex.ts";
+import {
+  connectDevtools,
+  type DevtoolsExtension,
+  type DevtoolsMessage,
+} from "./devtools.ts";
+
+/**
+ * Creates a mock of the extension, recording what the app sends it and
+ * letting tests send messages to the app.
+ */
+const mockExtension = () => {
+  const listeners: Set<(message: DevtoolsMessage) => void> = new Set();
+  const connection = {
+    init: vi.fn(),
+    send: vi.fn(),
+    subscribe: vi.fn((listener: (message: DevtoolsMessage) => void) => {
+      listeners.add(listener);
+
+      return () => listeners.delete(listener);
+    }),
+  };
+  const extension: DevtoolsExtension = {
+    connect: vi.fn(() => connection),
+  };
+
+  const message = (message: DevtoolsMessage) => {
+    for (const listener of listeners) {
+      listener(message);
+    }
+  };
+
+  return { extension, connection, message, listeners };
+};
+
+const counterApp = () => {
+  const $ = ShapeX({ count: 0 });
+
+  $.subscribe("inc", (state, by: number | undefined) => ({
+    state: { ...state, count: state.count + (by ?? 1) },
+  }));
+
+  return $;
+};
+
+describe("devtools", () => {
+  it("connects under the given name with the initial state", () => {
+    const { extension, connection } = mockExtension();
+
+    connectDevtools(counterApp(), { name: "counter", extension });
+
+    expect(extension.connect).toHaveBeenCalledWith({ name: "counter" });
+    expect(connection.init).toHaveBeenCalledWith({ count: 0 });
+  });
+
+  it("reports events along with the state they resulted in", () => {
+    const { extension, connection } = mockExtension();
+    const $ = counterApp();
+
+    connectDevtools($, { extension });
+    $.dispatch("inc", 2);
+
+    expect(connection.send).toHaveBeenCalledTimes(1);
+    expect(connection.send).toHaveBeenCalledWith(
+      { type: "inc", payload: 2 },
+      { count: 2 },
+    );
+  });
+
+  it("reports async state updates as actions of their own", async () => {
+    const { extension, connection } = mockExtension();
+    const $ = ShapeX({ count: 0 });
+
+    $.subscribe("load", async () => ({ state: { count: 5 } }));
+    connectDevtools($, { extension });
+
+    await $.dispatchAsync("load");
+
+    expect(connection.send.mock.calls).toEqual([
+      [{ type: "load", payload: undefined }, { count: 0 }],
+      [{ type: "load (async)" }, { count: 5 }],
+    ]);
+  });
+
+  it("replaces state when jumping to a state or action", () => {
+    const { extension, connection, message } = mockExtension();
+    const $ = counterApp();
+    const cb = vi.fn();
+
+    $.subscribe("$.count", cb);
+    connectDevtools($, { extension });
+
+    message({
+      type: "DISPATCH",
+      payload: { type: "JUMP_TO_STATE" },
+      state: JSON.stringify({ count: 3 }),
+    });
+    expect($.state()).toEqual({ count: 3 });
+
+    message({
+      type: "DISPATCH",
+      payload: { type: "JUMP_TO_ACTION" },
+      state: JSON.stringify({ count: 1 }),
+    });
+    expect($.state()).toEqual({ count: 1 });
+
+    expect(cb).toHaveBeenCalledTimes(2);
+    expect(connection.send).not.toHaveBeenCalled();
+  });
+
+  it("commits the current state as the initial one", () => {
+    const { extension, connection, message } = mockExtension();
+    const $ = counterApp();
+
+    connectDevtools($, { extension });
+    $.dispatch("inc");
+    message({ type: "DISPATCH", payload: { type: "COMMIT" } });
+
+    expect(connection.init).toHaveBeenLastCalledWith({ count: 1 });
+  });
+
+  it("imports state", () => {
+    const { extension, connection, message } = mockExtension();
+    const $ = counterApp();
+    const lifted = {
+      computedStates: [{ state: { count: 0 } }, { state: { count: 7 } }],
+    };
+
+    connectDevtools($, { extension });
+    message({
+      type: "DISPATCH",
+      payload: { type: "IMPORT_STATE", nextLiftedState: lifted },
+    });
+
+    expect($.state()).toEqual({ count: 7 });
+    expect(connection.send).toHaveBeenCalledWith(null, lifted);
+  });
+
+  it("disconnects", () => {
+    const { extension, connection, listeners } = mockExtension();
+    const $ = counterApp();
+
+    const disconnect = connectDevtools($, { extension });
+    disconnect();
+    $.dispatch("inc");
+
+    expect(connection.send).not.toHaveBeenCalled();
+    expect(listeners.size).toBe(0);
+  });
+
+  it("does nothing without an extension", () => {
+    const $ = counterApp();
+
+    expect(() => connectDevtools($)()).not.toThrow();
+  });
+});
@@ -0,0 +1,192 @@
+import type { ShapeXInstance } from "./shapex.ts";
+
+/**
+ * The history the Redux DevTools extension keeps, as imported into it.
+ */
+export type DevtoolsLiftedState = {
+  computedStates?: { state: unknown }[];
+};
+
+/**
+ * What the Redux DevTools extension asks a connected app to do, such as
+ * `JUMP_TO_STATE`, `COMMIT` or `IMPORT_STATE`.
+ */
+export type DevtoolsPayload = {
+  type: string;
+  /**
+   * The imported history, with `IMPORT_STATE`.
+   */
+  nextLiftedState?: DevtoolsLiftedState;
+};
+
+/**
+ * A message the Redux DevTools extension sends to a connected app.
+ */
+export type DevtoolsMessage = {
+  type: string;
+  payload?: DevtoolsPayload;
+  /**
+   * The state to move to, serialized as JSON.
+   */
+  state?: string;
+};
+
+/**
+ * A connection to the Redux DevTools extension, as returned by its
+ * `connect()`.
+ */
+export type DevtoolsConnection = {
+  init: (state: unknown) => void;
+  send: (action: unknown, state: unknown) => void;
+  subscribe: (
+    listener: (message: DevtoolsMessage) => void,
+  ) => (() => void) | void;
+};
+
+/**
+ * The part of the Redux DevTools extension's API that is used, found
+ * at `window.__REDUX_DEVTOOLS_EXTENSION__`.
+ */
+export type DevtoolsExtension = {
+  connect: (options?: { name?: string }) => DevtoolsConnection;
+};
+
+/**
+ * Options for connecting to the Redux DevTools extension.
+ */
+export type DevtoolsOptions = {
+  /**
+   * The name the app is listed under in the extension.
+   */
+  name?: string;
+  /**
+   * The extension to connect to. Defaults to the one installed in the
+   * browser, if any.
+   */
+  extension?: DevtoolsExtension;
+};
+
+/**
+ * Connects an instance to the Redux DevTools extension. Every event is
+ * reported as an action once it has been handled, along with the state
+ * it resulted in, so an event comes after the events its handling
+ * dispatched. Async state updates are reported as actions of their own.
+ * State change notifications are left out, as their state is already
+ * reported by the event that brought them about.
+ *
+ * Moving through history in the extension, committing, and importing
+ * state are applied by replacing the instance's state.
+ *
+ * @param {ShapeXInstance<T, any, any>} app The instance to connect.
+ * @param {DevtoolsOptions} options Options for connecting.
+ * @returns {() => void} A function that disconnects the instance.
+ */
+export const connectDevtools = <T>(
+  app: ShapeXInstance<T, any, any>,
+  options: DevtoolsOptions = {},
+): (() => void) => {
+  const extension =
+    options.extension ??
+    (globalThis as { __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension })
+      .__REDUX_DEVTOOLS_EXTENSION__;
+
+  if (!extension) {
+    return () => {};
+  }
+
+  const connection = extension.connect(
+    options.name !== undefined ? { name: options.name } : {},
+  );
+  const _handling: Set<number> = new Set();
+  let _replacing = false;
+
+  /**
+   * Replaces the instance's state, without reporting it back.
+   *
+   * @param {T} state
+   */
+  const replace = (state: T): void => {
+    _replacing = true;
+
+    try {
+      app.setState(state);
+    } finally {
+      _replacing = false;
+    }
+  };
+
+  const stopObserving = app.observe({
+    dispatch: (record) => {
+      _handling.add(record.id);
+    },
+    dispatched: (record) => {
+      _handling.delete(record.id);
+
+      if (!_replacing && !record.event.startsWith("$.")) {
+        connection.send(
+          { type: record.event, payload: record.data },
+          app.state(),
+        );
+      }
+    },
+    commit: (record) => {
+      if (_replacing) {
+        return;
+      }
+
+      // Updates made while handling an event are reported along with it.
+      if (record.dispatch !== undefined && _handling.has(record.dispatch)) {
+        return;
+      }
+
+      connection.send(
+        {
+          type:
+            record.event !== undefined
+              ? `${record.event} (async)`
+              : "shapex/state",
+        },
+        record.state,
+      );
+    },
+  });
+
+  const unsubscribe = connection.subscribe((message) => {
+    if (message.type !== "DISPATCH" || !message.payload) {
+      return;
+    }
+
+    switch (message.payload.type) {
+      case "JUMP_TO_STATE":
+      case "JUMP_TO_ACTION":
+        if (message.state !== undefined) {
+          replace(JSON.parse(message.state));
+        }
+        break;
+
+      case "COMMIT":
+        connection.init(app.state());
+        break;
+
+      case "IMPORT_STATE": {
+        const lifted = message.payload.nextLiftedState;
+        const states = lifted?.computedStates ?? [];
+        const last = states[states.length - 1];
+
+        if (last) {
+          replace(last.state as T);
+        }
+
+        connection.send(null, lifted);
+        break;
+      }
+    }
+  });
+
+  connection.init(app.state());
+
+  return () => {
+    stopObserving();
+    unsubscribe?.();
+  };
+};
@@ -0,0 +1,190 @@
+import type { StateChange } from "./shapex.ts";
+import { removePath, setPath } from "./paths.ts";
+
+/**
+ * Narrows down which paths a state diff looks at.
+ */
+export type DiffFilter = {
+  /**
+   * Whether a changed path should be part of the diff.
+   */
+  report: (path: string) => boolean;
+  /**
+   * Whether to look for changes below a changed path.
+   */
+  descend: (path: string) => boolean;
+};
+
+/**
+ * A change of a path of state, as sent to another instance.
+ */
+export type StatePatch =
+  { path: string; value: unknown } | { path: string; removed: true };
+
+/**
+ * Whether a value is an object whose keys a state diff descends into.
+ *
+ * @param {unknown} value
+ * @returns {boolean}
+ */
+const isTraversable = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null;
+};
+
+/**
+ * Composes a list of changes between two states: the paths that were
+ * added, removed or changed, along with their old and new values.
+ * State is expected to be updated immutably: subtrees that are the
+ * same reference in both states are skipped without looking inside
+ * them.
+ *
+ * @param {unknown} oldState
+ * @param {unknown} newState
+ * @param {DiffFilter} filter Optionally narrows down the paths to diff.
+ * @returns {StateChange[]} The list of changes.
+ */
+export const diffState = (
+  oldState: unknown,
+  newState: unknown,
+  filter?: DiffFilter,
+): StateChange[] => {
+  const changes: StateChange[] = [];
+
+  const record = (
+    path: string,
+    kind: StateChange["kind"],
+    oldValue: unknown,
+    newValue: unknown,
+  ): void => {
+    if (!filter || filter.report(path)) {
+      changes.push({ path, kind, oldValue, newValue });
+    }
+  };
+
+  // Records every path within a subtree that was added or removed as a
+  // whole.
+  const all = (
+    value: unknown,
+    path: string,
+    kind: "added" | "removed",
+  ): void => {
+    if (!isTraversable(value) || (filter && !filter.descend(path))) {
+      return;
+    }
+
+    for (const key in value) {
+      const keyPath = `${path}.${key}`;
+
+      if (kind === "added") {
+        record(keyPath, kind, undefined, value[key]);
+      } else {
+        record(keyPath, kind, value[key], undefined);
+      }
+
+      all(value[key], keyPath, kind);
+    }
+  };
+
+  const diff = (oldValue: unknown, newValue: unknown, path: string): void => {
+    if (oldValue === newValue || (filter && !filter.descend(path))) {
+      return;
+    }
+
+    const oldObject = isTraversable(oldValue) ? oldValue : undefined;
+    const newObject = isTraversable(newValue) ? newValue : undefined;
+
+    for (const key in oldObject) {
+      const keyPath = `${path}.${key}`;
+
+      if (!newObject || !(key in newObject)) {
+        record(keyPath, "removed", oldObject[key], undefined);
+        all(oldObject[key], keyPath, "removed");
+      } else if (oldObject[key] !== newObject[key]) {
+        record(keyPath, "changed", oldObject[key], newObject[key]);
+        diff(oldObject[key], newObject[key], keyPath);
+      }
+    }
+
+    for (const key in newObject) {
+      if (!oldObject || !(key in oldObject)) {
+        const keyPath = `${path}.${key}`;
+
+        record(keyPath, "added", undefined, newObject[key]);
+        all(newObject[key], keyPath, "added");
+      }
+    }
+  };
+
+  diff(oldState, newState, "$");
+
+  return changes;
+};
+
+/**
+ * Whether a path is the same as, or nested below, another.
+ *
+ * @param {string} path
+ * @param {string} ancestor
+ * @returns {boolean}
+ */
+export const within = (path: string, ancestor: string): boolean => {
+  return (
+    path === ancestor || ancestor === "$" || path.startsWith(`${ancestor}.`)
+  );
+};
+
+/**
+ * Composes the patches between two states, of the topmost changed paths
+ * within the given paths.
+ *
+ * @param {unknown} oldState
+ * @param {unknown} newState
+ * @param {string[]} paths The `$.` paths to look for changes in.
+ * @returns {StatePatch[]}
+ */
+export const diffPatches = (
+  oldState: unknown,
+  newState: unknown,
+  paths: string[],
+): StatePatch[] => {
+  const changes = diffState(oldState, newState, {
+    report: (path) => paths.some((included) => within(path, included)),
+    descend: (path) =>
+      paths.some(
+        (included) => within(path, included) || within(included, path),
+      ),
+  });
+  const patches: StatePatch[] = [];
+
+  for (const change of changes) {
+    if (patches.some((patch) => within(change.path, patch.path))) {
+      continue;
+    }
+
+    patches.push(
+      change.kind === "removed"
+        ? { path: change.path, removed: true }
+        : { path: change.path, value: change.newValue },
+    );
+  }
+
+  return patches;
+};
+
+/**
+ * Immutably applies patches to the given state, in order.
+ *
+ * @param {S} state
+ * @param {StatePatch[]} patches
+ * @returns {S}
+ */
+export const applyPatches = <S>(state: S, patches: StatePatch[]): S => {
+  for (const patch of patches) {
+    state =
+      "removed" in patch
+        ? removePath(state, patch.path)
+        : setPath(state, patch.path, patch.value);
+  }
+
+  return state;
+};
@@ -0,0 +1,339 @@
+import { describe, it, expect, vi } from "vitest";
+import { ShapeX } from "./shapex.ts";
+import { createHistory, replay } from "./history.ts";
+
+/**
+ * Creates a counter app, where `inc` increments the counter and `add`
+ * dispatches `inc` the given number of times.
+ */
+const counterApp = () => {
+  const $ = ShapeX({ count: 0 });
+
+  $.subscribe("inc", (state) => ({
+    state: { ...state, count: state.count + 1 },
+  }));
+
+  $.subscribe("add", (_state, times: number | undefined) => ({
+    dispatch: Array.from({ length: times ?? 0 }, () => ({ to: "inc" })),
+  }));
+
+  return $;
+};
+
+describe("history", () => {
+  it("records dispatches along with the state they resulted in", () => {
+    const $ = counterApp();
+    const history = createHistory($);
+
+    $.dispatch("inc");
+
+    expect(history.entries()).toEqual([
+      {
+        cascade: expect.any(Number),
+        events: [
+          { id: 1, event: "inc", data: undefined, parent: undefined },
+          {
+            id: 2,
+            event: "$.count",
+            data: {
+              path: "$.count",
+              kind: "changed",
+              oldValue: 0,
+              newValue: 1,
+            },
+            parent: 1,
+          },
+        ],
+        state: { count: 1 },
+        changes: ["$.count"],
+      },
+    ]);
+  });
+
+  it("records the event that caused a dispatch", () => {
+    const $ = counterApp();
+    const history = createHistory($);
+
+    $.dispatch("add", 2);
+
+    const entries = history.entries();
+
+    expect(entries).toHaveLength(3);
+    expect(entries[0]?.events[0]).toEqual({
+      id: 1,
+      event: "add",
+      data: 2,
+      parent: undefined,
+    });
+    expect(entries[1]?.events[0]?.parent).toBe(1);
+    expect(entries[2]?.events[0]?.parent).toBe(1);
+  });
+
+  it("records the cause of dispatches of async handlers", async () => {
+    const $ = ShapeX({ count: 0 });
+    const history = createHistory($);
+
+    $.subscribe("load", async () => ({ dispatch: { to: "loaded" } }));
+
+    await $.dispatchAsync("load");
+
+    const [load, loaded] = history.entries();
+
+    expect(loaded?.events[0]?.parent).toBe(load?.events[0]?.id);
+  });
+
+  it("undoes and redoes entries", () => {
+    const $ = counterApp();
+    const history = createHistory($);
+
+    $.dispatch("inc");
+    $.dispatch("inc");
+
+    expect(history.undo()).toBe(true);
+    expect($.state()).toEqual({ count: 1 });
+
+    expect(history.undo()).toBe(true);
+    expect($.state()).toEqual({ count: 0 });
+    expect(history.undo()).toBe(false);
+
+    expect(history.redo()).toBe(true);
+    expect(history.redo()).toBe(true);
+    expect($.state()).toEqual({ count: 2 });
+    expect(history.redo()).toBe(false);
+  });
+
+  it("notifies state listeners when moving through history", () => {
+    const $ = counterApp();
+    const history = createHistory($);
+    const cb = vi.fn();
+
+    $.dispatch("inc");
+    $.subscribe("$.count", cb);
+
+    history.undo();
+
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect(history.entries()).toHaveLength(1);
+  });
+
+  it("jumps to an entry", () => {
+    const $ = counterApp();
+    const history = createHistory($);
+
+    $.dispatch("inc");
+    $.dispatch("inc");
+    $.dispatch("inc");
+
+    history.jumpTo(0);
+    expect($.state()).toEqual({ count: 1 });
+    expect(history.index()).toBe(0);
+
+    history.jumpTo(-1);
+    expect($.state()).toEqual({ count: 0 });
+
+    expect(() => history.jumpTo(3)).toThrow(
+      "No history entry at 3, there are 3.",
+    );
+  });
+
+  it("drops undone entries once something else is dispatched", () => {
+    const $ = counterApp();
+    const history = createHistory($);
+
+    $.dispatch("inc");
+    $.dispatch("inc");
+    history.undo();
+    $.dispatch("add", 0);
+
+    expect(history.entries().map((entry) => entry.events[0]?.event)).toEqual([
+      "inc",
+      "add",
+    ]);
+    expect(history.redo()).toBe(false);
+  });
+
+  it("keeps no more entries than the limit", () => {
+    const $ = counterApp();
+    const history = createHistory($, { limit: 2 });
+
+    $.dispatch("inc");
+    $.dispatch("inc");
+    $.dispatch("inc");
+
+    expect(history.entries()).toHaveLength(2);
+
+    history.jumpTo(-1);
+    expect($.state()).toEqual({ count: 1 });
+  });
+
+  it("groups the entries of a cascade", () => {
+    const $ = counterApp();
+    const history = createHistory($, { groupCascades: true });
+
+    $.dispatch("add", 2);
+    $.dispatch("inc");
+
+    const entries = history.entries();
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]?.events.map((event) => event.event)).toEqual([
+      "add",
+      "inc",
+      "$.count",
+      "inc",
+      "$.count",
+    ]);
+    expect(entries[0]?.state).toEqual({ count: 2 });
+
+    history.undo();
+    expect($.state()).toEqual({ count: 2 });
+
+    history.undo();
+    expect($.state()).toEqual({ count: 0 });
+  });
+
+  it("records state updates no dispatch caused", () => {
+    const $ = counterApp();
+    const history = createHistory($);
+
+    $.setState({ count: 5 });
+
+    expect(history.entries()[0]).toEqual({
+      cascade: undefined,
+      events: [],
+      state: { count: 5 },
+      changes: ["$.count"],
+    });
+  });
+
+  it("clears and stops recording", () => {
+    const $ = counterApp();
+    const history = createHistory($);
+
+    $.dispatch("inc");
+    history.clear();
+
+    expect(history.entries()).toEqual([]);
+    expect(history.undo()).toBe(false);
+
+    history.stop();
+    $.dispatch("inc");
+
+    expect(history.entries()).toEqual([]);
+  });
+});
+
+describe("replay", () => {
+  it("replays a recorded log against a fresh instance", async () => {
+    const $ = counterApp();
+    const history = createHistory($);
+
+    $.dispatch("add", 2);
+    $.dispatch("inc");
+
+    expect(history.log()).toEqual([
+      { event: "add", data: 2 },
+      { event: "inc", data: undefined },
+    ]);
+
+    const state = await replay(counterApp(), history.log());
+
+    expect(state).toEqual($.state());
+  });
+
+  it("leaves scheduled dispatches out of the log", async () => {
+    vi.useFakeTimers();
+
+    try {
+      const $ = counterApp();
+      const history = createHistory($);
+
+      $.subscribe("later", () => ({ dispatch: { to: "inc", after: 1 } }));
+      $.dispatch("later");
+      vi.advanceTimersByTime(1);
+
+      expect(history.log()).toEqual([{ event: "later", data: undefined }]);
+
+      const replayed = counterApp();
+      replayed.subscribe("later", () => ({
+        dispatch: { to: "inc", after: 1 },
+      }));
+      await replay(replayed, history.log());
+      vi.advanceTimersByTime(1);
+
+      expect(replayed.state()).toEqual($.state());
+      expect($.state()).toEqual({ count: 1 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("replays the coeffect values the logged events were handled with", async () => {
+    const idApp = (ids: () => number) => {
+      const $ = ShapeX({ ids: [] as number[] });
+
+      $.registerCoeffect("id", ids);
+      $.subscribe(
+        "create",
+        (state, _data, { coeffects }) => ({
+          state: { ...state, ids: [...state.ids, coeffects.id] },
+        }),
+        { coeffects: ["id"] },
+      );
+      $.subscribe("createTwice", () => ({
+        dispatch: [{ to: "create" }, { to: "create" }],
+      }));
+
+      return $;
+    };
+    let next = 0;
+    const $ = idApp(() => ++next);
+    const history = createHistory($);
+
+    $.dispatch("createTwice");
+    $.dispatch("create");
+
+    expect(history.log()).toEqual([
+      {
+        event: "createTwice",
+        data: undefined,
+        coeffects: [{ id: 1 }, { id: 2 }],
+      },
+      { event: "create", data: undefined, coeffects: [{ id: 3 }] },
+    ]);
+
+    const replayed = idApp(() => 0);
+
+    expect(await replay(replayed, history.log())).toEqual({ ids: [1, 2, 3] });
+
+    replayed.dispatch("create");
+    expect(replayed.state().ids).toEqual([1, 2, 3, 0]);
+  });
+
+  it("logs only the events up to the current entry", () => {
+    const $ = counterApp();
+    const history = createHistory($);
+
+    $.dispatch("inc");
+    $.dispatch("add", 1);
+    history.jumpTo(0);
+
+    expect(history.log()).toEqual([{ event: "inc", data: undefined }]);
+  });
+
+  it("waits for each event to settle before the next", async () => {
+    const $ = ShapeX({ items: [] as string[] });
+    const log = [
+      { event: "push", data: "a" },
+      { event: "push", data: "b" },
+    ];
+
+    $.subscribe("push", async (_state, item: string | undefined) => {
+      await new Promise((resolve) => setTimeout(resolve, item === "a" ? 5 : 0));
+
+      return { state: { ...$.state(), items: [...$.state().items, item!] } };
+    });
+
+    expect(await replay($, log)).toEqual({ items: ["a", "b"] });
+  });
+});
@@ -0,0 +1,451 @@
+import type { DispatchRecord, InjectRecord, ShapeXInstance } from "./shapex.ts";
+
+/**
+ * Options for recording the history of an instance.
+ */
+export type HistoryOptions = {
+  /**
+   * The most entries to keep, dropping the oldest ones beyond it.
+   * Defaults to 100.
+   */
+  limit?: number;
+  /**
+   * Whether everything one cascade dispatches makes up a single entry,
+   * rather than an entry per dispatch.
+   */
+  groupCascades?: boolean;
+};
+
+/**
+ * A recorded dispatch.
+ */
+export type HistoryEvent = {
+  id: number;
+  event: string;
+  data: unknown;
+  /**
+   * The id of the dispatch whose handling caused this one, if any.
+   */
+  parent: number | undefined;
+};
+
+/**
+ * A step in the history of an instance, which undo and redo move
+ * between.
+ */
+export type HistoryEntry<T> = {
+  /**
+   * Identifies the cascade the entry's dispatches are part of.
+   */
+  cascade: number | undefined;
+  /**
+   * The dispatches of the entry, or none for state updates that no
+   * dispatch caused, such as rollbacks.
+   */
+  events: HistoryEvent[];
+  /**
+   * The state after the entry's last state update.
+   */
+  state: T;
+  /**
+   * The paths the entry's state updates changed.
+   */
+  changes: string[];
+};
+
+/**
+ * An event that was dispatched from outside of any subscription, and
+ * thus is enough to reproduce everything that followed from it.
+ */
+export type LoggedEvent = {
+  event: string;
+  data: unknown;
+  /**
+   * The coeffect values injected while handling the event and
+   * everything it caused, in the order they were injected, if any.
+   */
+  coeffects?: Record<string, unknown>[];
+};
+
+/**
+ * The recorded history of an instance.
+ */
+export type History<T> = {
+  /**
+   * Get the recorded entries, oldest first.
+   */
+  entries: () => HistoryEntry<T>[];
+  /**
+   * Get the index of the entry whose state is current, or -1 for the
+   * state before the first entry.
+   */
+  index: () => number;
+  /**
+   * Move back an entry. Returns false if there's nothing to undo.
+   */
+  undo: () => boolean;
+  /**
+   * Move forward an entry. Returns false if there's nothing to redo.
+   */
+  redo: () => boolean;
+  /**
+   * Move to the entry at the given index, or -1 for the state before
+   * the first entry.
+   */
+  jumpTo: (index: number) => void;
+  /**
+   * Get the events dispatched from outside of any subscription, for
+   * replaying them.
+   */
+  log: () => LoggedEvent[];
+  /**
+   * Forget every entry, starting over from the current state.
+   */
+  clear: () => void;
+  /**
+   * Stop recording.
+   */
+  stop: () => void;
+};
+
+/**
+ * Records every dispatch of an instance, along with the state it
+ * resulted in, so that the state can be moved back and forth between
+ * them. Dispatching an event after undoing drops the entries that were
+ * undone.
+ *
+ * @param {ShapeXInstance<T, any, any>} app The instance to record.
+ * @param {HistoryOptions} options Options for recording.
+ * @returns {History<T>} The history.
+ */
+export const createHistory = <T>(
+  app: ShapeXInstance<T, any, any>,
+  options: HistoryOptions = {},
+): History<T> => {
+  const limit = options.limit ?? 100;
+  const _entries: HistoryEntry<T>[] = [];
+  const _entryOf: Map<number, HistoryEntry<T>> = new Map();
+  const _rootOf: Map<number, number> = new Map();
+  const _injected: Map<number, Record<string, unknown>[]> = new Map();
+  let _initial = app.state();
+  let _index = -1;
+  let _traveling = false;
+
+  /**
+   * Adds an entry after the current one, dropping any entries that
+   * were undone, and the oldest ones beyond the limit.
+   *
+   * @param {HistoryEntry<T>} entry
+   */
+  const push = (entry: HistoryEntry<T>): void => {
+    for (const dropped of _entries.splice(_index + 1)) {
+      forget(dropped);
+    }
+
+    _entries.push(entry);
+
+    while (_entries.length > limit) {
+      const dropped = _entries.shift() as HistoryEntry<T>;
+      _initial = dropped.state;
+      forget(dropped);
+    }
+
+    _index = _entries.length - 1;
+  };
+
+  /**
+   * Forgets which dispatches an entry is made up of.
+   *
+   * @param {HistoryEntry<T>} entry
+   */
+  const forget = (entry: HistoryEntry<T>): void => {
+    for (const event of entry.events) {
+      _entryOf.delete(event.id);
+      _rootOf.delete(event.id);
+      _injected.delete(event.id);
+    }
+  };
+
+  /**
+   * Records a dispatch, as an entry of its own or, when grouping
+   * cascades, as part of the entry of its cascade.
+   *
+   * @param {DispatchRecord} record
+   */
+  const recordDispatch = (record: DispatchRecord): void => {
+    if (_traveling) {
+      return;
+    }
+
+    const event: HistoryEvent = {
+      id: record.id,
+      event: record.event,
+      data: record.data,
+      parent: record.parent,
+    };
+    const last = _entries[_index];
+    const parent =
+      record.parent !== undefined ? _entryOf.get(record.parent) : undefined;
+
+    _rootOf.set(
+      record.id,
+      record.parent !== undefined
+        ? (_rootOf.get(record.parent) ?? record.parent)
+        : record.id,
+    );
+
+    // State change notifications join the entry of the update that
+    // brought them about, as on their own they'd be a step that changes
+    // nothing.
+    if (parent && record.event.startsWith("$.")) {
+      parent.events.push(event);
+      _entryOf.set(record.id, parent);
+      return;
+    }
+
+    if (
+      options.groupCascades &&
+      last !== undefined &&
+      _index === _entries.length - 1 &&
+      last.cascade === record.cascade
+    ) {
+      last.events.push(event);
+      _entryOf.set(record.id, last);
+      return;
+    }
+
+    const entry: HistoryEntry<T> = {
+      cascade: record.cascade,
+      events: [event],
+      state: app.state(),
+      changes: [],
+    };
+
+    push(entry);
+    _entryOf.set(record.id, entry);
+  };
+
+  /**
+   * Records a state update on the entry of the dispatch that caused it,
+   * or as an entry of its own when no recorded dispatch did.
+   *
+   * @param {number | undefined} dispatch
+   * @param {T} state
+   * @param {string[]} changes
+   */
+  const recordCommit = (
+    dispatch: number | undefined,
+    state: T,
+    changes: string[],
+  ): void => {
+    if (_traveling) {
+      return;
+    }
+
+    const entry = dispatch !== undefined ? _entryOf.get(dispatch) : undefined;
+
+    if (!entry) {
+      push({ cascade: undefined, events: [], state, changes });
+      return;
+    }
+
+    entry.state = state;
+
+    for (const change of changes) {
+      if (!entry.changes.includes(change)) {
+        entry.changes.push(change);
+      }
+    }
+  };
+
+  /**
+   * Records injected coeffect values on the event at the root of the
+   * dispatch they were injected for, so that replaying it can inject
+   * them again.
+   *
+   * @param {InjectRecord} record
+   */
+  const recordInject = (record: InjectRecord): void => {
+    const root = _rootOf.get(record.dispatch);
+
+    if (_traveling || root === undefined) {
+      return;
+    }
+
+    const injected = _injected.get(root) ?? [];
+    injected.push(record.coeffects);
+    _injected.set(root, injected);
+  };
+
+  const stop = app.observe({
+    dispatch: recordDispatch,
+    inject: recordInject,
+    commit: (record) =>
+      recordCommit(
+        record.dispatch,
+        record.state,
+        record.changes.map((change) => change.path),
+      ),
+  });
+
+  /**
+   * Puts the state of the entry at the given index in place, without
+   * recording it.
+   *
+   * @param {number} index
+   */
+  const travel = (index: number): void => {
+    const state =
+      index === -1 ? _initial : (_entries[index] as HistoryEntry<T>).state;
+    _index = index;
+    _traveling = true;
+
+    try {
+      app.setState(state);
+    } finally {
+      _traveling = false;
+    }
+  };
+
+  /**
+   * Returns the recorded entries, oldest first.
+   *
+   * @returns {HistoryEntry<T>[]}
+   */
+  const entries = (): HistoryEntry<T>[] => {
+    return [..._entries];
+  };
+
+  /**
+   * Returns the index of the entry whose state is current.
+   *
+   * @returns {number}
+   */
+  const index = (): number => {
+    return _index;
+  };
+
+  /**
+   * Moves back an entry.
+   *
+   * @returns {boolean} Whether there was anything to undo.
+   */
+  const undo = (): boolean => {
+    if (_index < 0) {
+      return false;
+    }
+
+    travel(_index - 1);
+    return true;
+  };
+
+  /**
+   * Moves forward an entry.
+   *
+   * @returns {boolean} Whether there was anything to redo.
+   */
+  const redo = (): boolean => {
+    if (_index >= _entries.length - 1) {
+      return false;
+    }
+
+    travel(_index + 1);
+    return true;
+  };
+
+  /**
+   * Moves to the entry at the given index.
+   *
+   * @param {number} index The index, or -1 for the state before the
+   * first entry.
+   */
+  const jumpTo = (index: number): void => {
+    if (!Number.isInteger(index) || index < -1 || index >= _entries.length) {
+      throw new RangeError(
+        `No history entry at ${index}, there are ${_entries.length}.`,
+      );
+    }
+
+    travel(index);
+  };
+
+  /**
+   * Returns the events dispatched from outside of any subscription, up
+   * to the current entry, along with the coeffect values injected while
+   * handling them. State change notifications are left out, as
+   * replaying the events brings them about again.
+   *
+   * @returns {LoggedEvent[]}
+   */
+  const log = (): LoggedEvent[] => {
+    return _entries
+      .slice(0, _index + 1)
+      .flatMap((entry) => entry.events)
+      .filter((event) => event.parent === undefined)
+      .filter((event) => !event.event.startsWith("$."))
+      .map(({ id, event, data }) => {
+        const coeffects = _injected.get(id);
+
+        return coeffects
+          ? { event, data, coeffects: [...coeffects] }
+          : { event, data };
+      });
+  };
+
+  /**
+   * Forgets every entry, starting over from the current state.
+   */
+  const clear = (): void => {
+    _entries.length = 0;
+    _entryOf.clear();
+    _rootOf.clear();
+    _injected.clear();
+    _initial = app.state();
+    _index = -1;
+  };
+
+  return { entries, index, undo, redo, jumpTo, log, clear, stop };
+};
+
+/**
+ * Dispatches the events of a log one after another, each once the
+ * previous one has settled, so that a recorded session plays out the
+ * same way against a fresh instance. The coeffect values recorded with
+ * an event are injected again, in the order they were injected, in
+ * place of what the providers give.
+ *
+ * @param {ShapeXInstance<T, any, any>} app The instance to replay on.
+ * @param {LoggedEvent[]} log The events to replay.
+ * @returns {Promise<T>} The state once every event has settled.
+ */
+export const replay = async <T>(
+  app: ShapeXInstance<T, any, any>,
+  log: LoggedEvent[],
+): Promise<T> => {
+  let _recorded: Record<string, unknown>[] = [];
+  const stop = app.intercept({
+    name: "replay",
+    before: (context) => {
+      if (Object.keys(context.coeffects).length === 0) {
+        return;
+      }
+
+      const recorded = _recorded.shift();
+
+      if (recorded) {
+        context.coeffects = { ...context.coeffects, ...recorded };
+      }
+    },
+  });
+
+  try {
+    for (const { event, data, coeffects } of log) {
+      _recorded = [...(coeffects ?? [])];
+      await app.dispatchAsync(event, data);
+    }
+  } finally {
+    stop();
+  }
+
+  return app.state();
+};
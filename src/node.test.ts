@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileStorage } from "./node.ts";
+
+describe("fileStorage", () => {
+  it("stores items in files", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "shapex-"));
+    const storage = fileStorage(join(directory, "state"));
+
+    try {
+      expect(await storage.getItem("app/state")).toBeNull();
+
+      await storage.setItem("app/state", "{}");
+      expect(await storage.getItem("app/state")).toBe("{}");
+
+      await storage.removeItem("app/state");
+      expect(await storage.getItem("app/state")).toBeNull();
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,37 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { StorageAdapter } from "./persist.ts";
+
+/**
+ * Creates a storage adapter writing each key to a JSON file in the
+ * given directory, which is created when first written to.
+ *
+ * @param {string} directory
+ * @returns {StorageAdapter}
+ */
+export const fileStorage = (directory: string): StorageAdapter => {
+  const file = (key: string): string => {
+    return join(directory, `${encodeURIComponent(key)}.json`);
+  };
+
+  return {
+    getItem: async (key) => {
+      try {
+        return await readFile(file(key), "utf8");
+      } catch (error) {
+        if ((error as { code?: string }).code === "ENOENT") {
+          return null;
+        }
+
+        throw error;
+      }
+    },
+    setItem: async (key, value) => {
+      await mkdir(directory, { recursive: true });
+      await writeFile(file(key), value, "utf8");
+    },
+    removeItem: async (key) => {
+      await rm(file(key), { force: true });
+    },
+  };
+};
@@ -0,0 +1,101 @@
+/**
+ * Splits a `$.` state path into its keys.
+ *
+ * @param {string} path The state path, e.g. `$.a.b`.
+ * @returns {string[]} The keys, e.g. `["a", "b"]`.
+ */
+export const pathKeys = (path: string): string[] => {
+  return path === "$" ? [] : path.replace(/^\$\./, "").split(".");
+};
+
+/**
+ * Reads the value at a `$.` path of the given state.
+ *
+ * @param {unknown} state The state to read from.
+ * @param {string} path The state path, e.g. `$.a.b`.
+ * @returns {unknown} The value, or undefined if the path doesn't exist.
+ */
+export const getPath = (state: unknown, path: string): unknown => {
+  let value = state;
+
+  for (const key of pathKeys(path)) {
+    if (typeof value !== "object" || value === null) {
+      return undefined;
+    }
+
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value;
+};
+
+/**
+ * Immutably sets the value at a `$.` path of the given state, copying
+ * every object along the path and creating the ones that don't exist.
+ *
+ * @param {S} state The state to update.
+ * @param {string} path The state path, e.g. `$.a.b`.
+ * @param {unknown} value The value to set.
+ * @returns {S} The updated state.
+ */
+export const setPath = <S>(state: S, path: string, value: unknown): S => {
+  const set = (target: unknown, keys: string[]): unknown => {
+    if (keys.length === 0) {
+      return value;
+    }
+
+    const [key, ...rest] = keys as [string, ...string[]];
+    const source =
+      typeof target === "object" && target !== null
+        ? (target as Record<string, unknown>)
+        : {};
+    const copy = Array.isArray(source) ? [...source] : { ...source };
+
+    (copy as Record<string, unknown>)[key] = set(source[key], rest);
+
+    return copy;
+  };
+
+  return set(state, pathKeys(path)) as S;
+};
+
+/**
+ * Immutably removes the value at a `$.` path of the given state,
+ * copying every object along the path. State without the path is
+ * returned as is.
+ *
+ * @param {S} state The state to update.
+ * @param {string} path The state path, e.g. `$.a.b`.
+ * @returns {S} The updated state.
+ */
+export const removePath = <S>(state: S, path: string): S => {
+  const remove = (target: unknown, keys: string[]): unknown => {
+    const [key, ...rest] = keys as [string, ...string[]];
+
+    if (typeof target !== "object" || target === null || !(key in target)) {
+      return target;
+    }
+
+    const source = target as Record<string, unknown>;
+
+    if (rest.length === 0) {
+      const copy = Array.isArray(target) ? [...target] : { ...source };
+      delete (copy as Record<string, unknown>)[key];
+      return copy;
+    }
+
+    const value = remove(source[key], rest);
+
+    if (value === source[key]) {
+      return target;
+    }
+
+    const copy = Array.isArray(target) ? [...target] : { ...source };
+    (copy as Record<string, unknown>)[key] = value;
+    return copy;
+  };
+
+  const keys = pathKeys(path);
+
+  return keys.length === 0 ? state : (remove(state, keys) as S);
+};
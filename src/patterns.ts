@@ -0,0 +1,206 @@
+/**
+ * Splits an event name or path into segments and the separators
+ * between them, e.g. `cart:add` into `["cart", ":", "add"]`.
+ *
+ * @param {string} name The event name or path.
+ * @returns {string[]} The segments and separators.
+ */
+const tokenize = (name: string): string[] => {
+  return name.split(/([.:/])/);
+};
+
+/**
+ * Whether a token of a tokenized name is a separator.
+ *
+ * @param {string} token
+ * @returns {boolean}
+ */
+const isSeparator = (token: string): boolean => {
+  return token === "." || token === ":" || token === "/";
+};
+
+/**
+ * Whether a listener is a pattern rather than an exact name.
+ *
+ * @param {string} listener
+ * @returns {boolean}
+ */
+export const isPattern = (listener: string): boolean => {
+  return tokenize(listener).some((token) => token === "*" || token === "**");
+};
+
+type PatternNode = {
+  children: Map<string, PatternNode>;
+  single?: PatternNode;
+  any?: PatternNode;
+  pattern?: string;
+};
+
+/**
+ * Creates a trie of listener patterns, so that matching a name against
+ * them walks the name's segments once, rather than every pattern.
+ *
+ * @returns The pattern trie.
+ */
+export const patternTrie = () => {
+  const root: PatternNode = { children: new Map() };
+
+  /**
+   * Adds a pattern to the trie.
+   *
+   * @param {string} pattern
+   */
+  const add = (pattern: string): void => {
+    let node = root;
+
+    for (const token of tokenize(pattern)) {
+      if (token === "*") {
+        node = node.single ??= { children: new Map() };
+      } else if (token === "**") {
+        node = node.any ??= { children: new Map() };
+      } else {
+        let child = node.children.get(token);
+        if (!child) {
+          child = { children: new Map() };
+          node.children.set(token, child);
+        }
+
+        node = child;
+      }
+    }
+
+    node.pattern = pattern;
+  };
+
+  /**
+   * Removes a pattern from the trie. Emptied nodes are left in place,
+   * as they are reused should the pattern be added again.
+   *
+   * @param {string} pattern
+   */
+  const remove = (pattern: string): void => {
+    let node: PatternNode | undefined = root;
+
+    for (const token of tokenize(pattern)) {
+      if (token === "*") {
+        node = node?.single;
+      } else if (token === "**") {
+        node = node?.any;
+      } else {
+        node = node?.children.get(token);
+      }
+    }
+
+    if (node) {
+      delete node.pattern;
+    }
+  };
+
+  /**
+   * Finds the patterns matching a name, where `*` matches a single
+   * segment and `**` one or more segments along with the separators
+   * between them.
+   *
+   * @param {string} name
+   * @returns {string[]} The matching patterns.
+   */
+  const match = (name: string): string[] => {
+    const tokens = tokenize(name);
+    const matches: Set<string> = new Set();
+
+    const walk = (node: PatternNode, index: number): void => {
+      if (index === tokens.length) {
+        if (node.pattern !== undefined) {
+          matches.add(node.pattern);
+        }
+
+        return;
+      }
+
+      const token = tokens[index] as string;
+      const child = node.children.get(token);
+
+      if (child) {
+        walk(child, index + 1);
+      }
+
+      if (node.single && !isSeparator(token)) {
+        walk(node.single, index + 1);
+      }
+
+      if (node.any && !isSeparator(token)) {
+        for (let end = index + 1; end <= tokens.length; end++) {
+          if (!isSeparator(tokens[end - 1] as string)) {
+            walk(node.any, end);
+          }
+        }
+      }
+    };
+
+    walk(root, 0);
+
+    return Array.from(matches);
+  };
+
+  /**
+   * Whether any pattern could match a name nested below the given one,
+   * i.e. one that starts with it followed by a separator. Emptied nodes
+   * left behind by removed patterns may make this err on the side of
+   * true.
+   *
+   * @param {string} name
+   * @returns {boolean}
+   */
+  const covers = (name: string): boolean => {
+    const tokens = tokenize(name);
+
+    const walk = (node: PatternNode, index: number, any: boolean): boolean => {
+      if (index === tokens.length) {
+        return (
+          node.children.size > 0 ||
+          node.single !== undefined ||
+          node.any !== undefined ||
+          (any && node.pattern !== undefined)
+        );
+      }
+
+      const token = tokens[index] as string;
+      const child = node.children.get(token);
+
+      if (child && walk(child, index + 1, false)) {
+        return true;
+      }
+
+      if (node.single && !isSeparator(token)) {
+        if (walk(node.single, index + 1, false)) {
+          return true;
+        }
+      }
+
+      if (node.any && !isSeparator(token)) {
+        for (let end = index + 1; end <= tokens.length; end++) {
+          if (!isSeparator(tokens[end - 1] as string)) {
+            if (walk(node.any, end, true)) {
+              return true;
+            }
+          }
+        }
+      }
+
+      return false;
+    };
+
+    return walk(root, 0, false);
+  };
+
+  /**
+   * Removes every pattern from the trie.
+   */
+  const clear = (): void => {
+    root.children.clear();
+    delete root.single;
+    delete root.any;
+  };
+
+  return { add, remove, match, covers, clear };
+};
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ShapeX } from "./shapex.ts";
+import {
+  memoryStorage,
+  persist,
+  webStorage,
+  type StorageAdapter,
+} from "./persist.ts";
+
+const appState = () => ({
+  user: { name: "John", token: "secret" },
+  cart: [] as string[],
+  ui: { open: false },
+});
+
+const stored = async (storage: StorageAdapter, key = "shapex") => {
+  const value = await storage.getItem(key);
+
+  return value ? JSON.parse(value) : value;
+};
+
+describe("persist", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("writes state once it stops changing", async () => {
+    vi.useFakeTimers();
+
+    const storage = memoryStorage();
+    const setItem = vi.spyOn(storage, "setItem");
+    const $ = ShapeX(appState());
+
+    $.subscribe("add", (state, item: string | undefined) => ({
+      state: { ...state, cart: [...state.cart, item!] },
+    }));
+
+    const persistor = persist($, { storage, debounce: 50 });
+    await persistor.hydrated;
+
+    $.dispatch("add", "apple");
+    $.dispatch("add", "pear");
+    await vi.advanceTimersByTimeAsync(49);
+    expect(setItem).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(await stored(storage)).toEqual({
+      version: 0,
+      state: { ...appState(), cart: ["apple", "pear"] },
+    });
+  });
+
+  it("persists only the included paths", async () => {
+    const storage = memoryStorage();
+    const $ = ShapeX(appState());
+    const persistor = persist($, {
+      storage,
+      include: ["$.user", "$.cart"],
+      exclude: ["$.user.token"],
+    });
+
+    await persistor.hydrated;
+    $.setState({ ...$.state(), cart: ["apple"] });
+    await persistor.flush();
+
+    expect((await stored(storage)).state).toEqual({
+      user: { name: "John" },
+      cart: ["apple"],
+    });
+  });
+
+  it("restores persisted state and dispatches shapex/hydrated", async () => {
+    const storage = memoryStorage(
+      new Map([
+        [
+          "app",
+          JSON.stringify({ version: 0, state: { user: { name: "Jane" } } }),
+        ],
+      ]),
+    );
+    const $ = ShapeX(appState());
+    const cb = vi.fn();
+
+    $.subscribe("shapex/hydrated", cb);
+    await persist($, { storage, key: "app" }).hydrated;
+
+    expect($.state()).toEqual({
+      ...appState(),
+      user: { name: "Jane", token: "secret" },
+    });
+    expect(cb).toHaveBeenCalledWith(
+      expect.anything(),
+      { restored: true, version: 0 },
+      expect.anything(),
+    );
+  });
+
+  it("dispatches shapex/hydrated without persisted state", async () => {
+    const $ = ShapeX(appState());
+    const cb = vi.fn();
+
+    $.subscribe("shapex/hydrated", cb);
+    await persist($, { storage: memoryStorage() }).hydrated;
+
+    expect($.state()).toEqual(appState());
+    expect(cb).toHaveBeenCalledWith(
+      expect.anything(),
+      { restored: false, version: undefined },
+      expect.anything(),
+    );
+  });
+
+  it("migrates state persisted with an older version", async () => {
+    const storage = memoryStorage(
+      new Map([
+        ["shapex", JSON.stringify({ version: 1, state: { name: "Jane" } })],
+      ]),
+    );
+    const $ = ShapeX(appState());
+    const persistor = persist($, {
+      storage,
+      version: 3,
+      migrations: {
+        1: () => {
+          throw new Error("Not run");
+        },
+        2: (state) => ({ user: { name: (state as { name: string }).name } }),
+        3: async (state) => ({ ...(state as object), cart: ["migrated"] }),
+      },
+    });
+
+    await persistor.hydrated;
+    await persistor.flush();
+
+    expect($.state()).toEqual({
+      ...appState(),
+      user: { name: "Jane", token: "secret" },
+      cart: ["migrated"],
+    });
+    expect((await stored(storage)).version).toBe(3);
+  });
+
+  it("ignores state persisted with a newer version, without writing over it", async () => {
+    const snapshot = JSON.stringify({ version: 2, state: {} });
+    const storage = memoryStorage(new Map([["shapex", snapshot]]));
+    const $ = ShapeX(appState());
+    const persistor = persist($, { storage, version: 1, debounce: 0 });
+
+    await persistor.hydrated;
+    $.setState({ ...appState(), cart: ["apple"] });
+    await persistor.flush();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect($.state()).toEqual({ ...appState(), cart: ["apple"] });
+    expect(await storage.getItem("shapex")).toBe(snapshot);
+  });
+
+  it("rejects when persisted state can't be read", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const storage = memoryStorage(new Map([["shapex", "{"]]));
+    const $ = ShapeX(appState());
+
+    await expect(persist($, { storage }).hydrated).rejects.toThrow(SyntaxError);
+    expect(error).toHaveBeenCalledWith(
+      'ShapeX: restoring state from "shapex" failed.',
+      expect.any(SyntaxError),
+    );
+    error.mockRestore();
+  });
+
+  it("reports failing to restore state without writing over it", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const storage = memoryStorage(new Map([["shapex", "{not json"]]));
+    const $ = ShapeX(appState());
+
+    persist($, { storage, debounce: 0 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    $.setState({ ...appState(), cart: ["apple"] });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(error).toHaveBeenCalledWith(
+      'ShapeX: restoring state from "shapex" failed.',
+      expect.any(SyntaxError),
+    );
+    expect(await storage.getItem("shapex")).toBe("{not json");
+    error.mockRestore();
+  });
+
+  it("stops writing and purges persisted state", async () => {
+    const storage = memoryStorage(
+      new Map([["shapex", JSON.stringify({ version: 0, state: {} })]]),
+    );
+    const setItem = vi.spyOn(storage, "setItem");
+    const $ = ShapeX(appState());
+    const persistor = persist($, { storage });
+
+    await persistor.hydrated;
+    persistor.stop();
+    $.setState({ ...$.state(), cart: ["apple"] });
+    await persistor.flush();
+
+    expect(setItem).not.toHaveBeenCalled();
+
+    await persistor.purge();
+    expect(await storage.getItem("shapex")).toBeUndefined();
+  });
+});
+
+describe("storage", () => {
+  it("stores items in a localStorage compatible store", () => {
+    const items = new Map<string, string>();
+    const storage = webStorage({
+      getItem: (key) => items.get(key) ?? null,
+      setItem: (key, value) => {
+        items.set(key, value);
+      },
+      removeItem: (key) => {
+        items.delete(key);
+      },
+    });
+
+    storage.setItem("key", "value");
+    expect(storage.getItem("key")).toBe("value");
+
+    storage.removeItem("key");
+    expect(storage.getItem("key")).toBeNull();
+  });
+
+  it("needs a store without localStorage", () => {
+    expect(() => webStorage()).toThrow(
+      "webStorage() needs a store, as there's no localStorage.",
+    );
+  });
+});
@@ -0,0 +1,354 @@
+import type { HydratedEventData, ShapeXInstance } from "./shapex.ts";
+import { getPath, removePath, setPath } from "./paths.ts";
+
+/**
+ * Where persisted state is stored. Any of the methods may be async.
+ */
+export type StorageAdapter = {
+  getItem: (
+    key: string,
+  ) => string | null | undefined | Promise<string | null | undefined>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+};
+
+/**
+ * Upgrades a persisted state from the previous version.
+ */
+export type Migration = (state: unknown) => unknown;
+
+/**
+ * Options for persisting the state of an instance.
+ */
+export type PersistOptions = {
+  storage: StorageAdapter;
+  /**
+   * The key the state is stored under. Defaults to `"shapex"`.
+   */
+  key?: string;
+  /**
+   * The `$.` paths to persist, persisting the whole state if not given.
+   */
+  include?: string[];
+  /**
+   * The `$.` paths to leave out of what is persisted.
+   */
+  exclude?: string[];
+  /**
+   * How many milliseconds to wait for state to stop changing before
+   * writing it. Defaults to 100.
+   */
+  debounce?: number;
+  /**
+   * The version of the persisted state's shape. Defaults to 0.
+   */
+  version?: number;
+  /**
+   * Migrations by the version they upgrade to, e.g. `2` upgrades a
+   * state persisted with version 1 to version 2.
+   */
+  migrations?: Record<number, Migration>;
+};
+
+/**
+ * Controls the persistence of an instance.
+ */
+export type Persistor = {
+  /**
+   * Resolves once the persisted state has been restored, and rejects
+   * if reading or migrating it failed.
+   */
+  hydrated: Promise<void>;
+  /**
+   * Write any pending state change right away.
+   */
+  flush: () => Promise<void>;
+  /**
+   * Remove the persisted state from storage.
+   */
+  purge: () => Promise<void>;
+  /**
+   * Stop persisting state changes, dropping any pending write.
+   */
+  stop: () => void;
+};
+
+/**
+ * What is written to storage.
+ */
+type Snapshot = {
+  version: number;
+  state: unknown;
+};
+
+/**
+ * Creates a storage adapter keeping everything in memory, e.g. for
+ * tests.
+ *
+ * @param {Map<string, string>} items The items to start with.
+ * @returns {StorageAdapter}
+ */
+export const memoryStorage = (
+  items: Map<string, string> = new Map(),
+): StorageAdapter => ({
+  getItem: (key) => items.get(key),
+  setItem: (key, value) => {
+    items.set(key, value);
+  },
+  removeItem: (key) => {
+    items.delete(key);
+  },
+});
+
+/**
+ * Creates a storage adapter for a `localStorage` compatible store.
+ *
+ * @param {StorageAdapter} storage The store, defaulting to `localStorage`.
+ * @returns {StorageAdapter}
+ */
+export const webStorage = (
+  storage: StorageAdapter | undefined = (
+    globalThis as { localStorage?: StorageAdapter }
+  ).localStorage,
+): StorageAdapter => {
+  if (!storage) {
+    throw new Error("webStorage() needs a store, as there's no localStorage.");
+  }
+
+  return {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: (key) => storage.removeItem(key),
+  };
+};
+
+/**
+ * Whether a value is a plain object that persisted state is merged
+ * into, rather than replacing it.
+ *
+ * @param {unknown} value
+ * @returns {boolean}
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+};
+
+/**
+ * Deeply merges persisted state into state, so that whatever wasn't
+ * persisted keeps its current value.
+ *
+ * @param {unknown} state
+ * @param {unknown} persisted
+ * @returns {unknown}
+ */
+const merge = (state: unknown, persisted: unknown): unknown => {
+  if (!isPlainObject(state) || !isPlainObject(persisted)) {
+    return persisted;
+  }
+
+  const merged: Record<string, unknown> = { ...state };
+
+  for (const key in persisted) {
+    merged[key] = merge(state[key], persisted[key]);
+  }
+
+  return merged;
+};
+
+/**
+ * Persists the state of an instance to storage, restoring it first.
+ * Once restored, migrated to the current version if it was saved with
+ * an older one, the `shapex/hydrated` event is dispatched. From then on
+ * state changes are written once state stops changing for a while.
+ *
+ * @param {ShapeXInstance<T, any, any>} app The instance to persist.
+ * @param {PersistOptions} options Options for persisting.
+ * @returns {Persistor}
+ */
+export const persist = <T>(
+  app: ShapeXInstance<T, any, any>,
+  options: PersistOptions,
+): Persistor => {
+  const { storage } = options;
+  const key = options.key ?? "shapex";
+  const version = options.version ?? 0;
+  // Writing starts once hydrated, unless what is persisted can't be
+  // made sense of, so that it isn't written over.
+  let _writing = false;
+  let _stopped = false;
+  let _timer: ReturnType<typeof setTimeout> | undefined;
+  let _written: string | null | undefined;
+
+  /**
+   * Picks the parts of state to persist.
+   *
+   * @param {T} state
+   * @returns {unknown}
+   */
+  const pick = (state: T): unknown => {
+    let picked: unknown = state;
+
+    if (options.include) {
+      picked = {};
+
+      for (const path of options.include) {
+        const value = getPath(state, path);
+
+        if (value !== undefined) {
+          picked = setPath(picked, path, value);
+        }
+      }
+    }
+
+    for (const path of options.exclude ?? []) {
+      picked = removePath(picked, path);
+    }
+
+    return picked;
+  };
+
+  /**
+   * Upgrades a persisted state to the current version, one version at a
+   * time.
+   *
+   * @param {Snapshot} snapshot
+   * @returns {Promise<unknown>}
+   */
+  const migrate = async (snapshot: Snapshot): Promise<unknown> => {
+    let state = snapshot.state;
+
+    for (let next = snapshot.version + 1; next <= version; next++) {
+      const migration = options.migrations?.[next];
+
+      if (migration) {
+        state = await migration(state);
+      }
+    }
+
+    return state;
+  };
+
+  /**
+   * Writes the current state, unless it is what was last written.
+   */
+  const write = async (): Promise<void> => {
+    clearTimeout(_timer);
+    _timer = undefined;
+
+    const snapshot: Snapshot = { version, state: pick(app.state()) };
+    const value = JSON.stringify(snapshot);
+
+    if (value === _written) {
+      return;
+    }
+
+    _written = value;
+    await storage.setItem(key, value);
+  };
+
+  /**
+   * Schedules a write once state stops changing for a while.
+   */
+  const schedule = (): void => {
+    if (!_writing || _stopped) {
+      return;
+    }
+
+    clearTimeout(_timer);
+    _timer = setTimeout(() => {
+      write().catch((error) => {
+        console.error(`ShapeX: persisting state to "${key}" failed.`, error);
+      });
+    }, options.debounce ?? 100);
+  };
+
+  /**
+   * Restores the persisted state, if any, and dispatches
+   * `shapex/hydrated`. Stopping while hydrating leaves state as is. A
+   * snapshot of a newer version than known is left as it is, neither
+   * restored nor written over.
+   */
+  const hydrate = async (): Promise<void> => {
+    const value = await storage.getItem(key);
+    const data: HydratedEventData = { restored: false, version: undefined };
+    let restored: unknown;
+    let newer = false;
+
+    if (value !== null && value !== undefined) {
+      const snapshot = JSON.parse(value) as Snapshot;
+
+      // Snapshots of a newer version than known can't be made sense of.
+      if (snapshot.version <= version) {
+        restored = await migrate(snapshot);
+        data.restored = true;
+        data.version = snapshot.version;
+      } else {
+        newer = true;
+      }
+    }
+
+    if (_stopped) {
+      return;
+    }
+
+    if (data.restored) {
+      _written = value;
+      app.setState(merge(app.state(), restored) as T);
+    }
+
+    _writing = !newer;
+    app.dispatch("shapex/hydrated", data);
+
+    // Writes state that was migrated or changed while hydrating.
+    schedule();
+  };
+
+  const stopObserving = app.observe({ commit: schedule });
+  const hydrated = hydrate();
+
+  // Failing to restore state is reported even when nobody awaits
+  // `hydrated`. State isn't written from then on, as it would write over
+  // what couldn't be restored.
+  hydrated.catch((error) => {
+    console.error(`ShapeX: restoring state from "${key}" failed.`, error);
+  });
+
+  /**
+   * Writes any pending state change right away.
+   *
+   * @returns {Promise<void>}
+   */
+  const flush = async (): Promise<void> => {
+    if (_timer !== undefined) {
+      await write();
+    }
+  };
+
+  /**
+   * Removes the persisted state from storage.
+   *
+   * @returns {Promise<void>}
+   */
+  const purge = async (): Promise<void> => {
+    clearTimeout(_timer);
+    _timer = undefined;
+    _written = undefined;
+    await storage.removeItem(key);
+  };
+
+  /**
+   * Stops persisting state changes.
+   */
+  const stop = (): void => {
+    _stopped = true;
+    clearTimeout(_timer);
+    _timer = undefined;
+    stopObserving();
+  };
+
+  return { hydrated, flush, purge, stop };
+};
@@ -0,0 +1,78 @@
+import { bench, describe } from "vitest";
+import { diffState } from "./shapex.ts";
+
+/**
+ * The state diff ShapeX used before diffing by reference: flattens both
+ * states into path lists and compares them with linear searches.
+ */
+const flatteningDiff = (oldState: object, newState: object): string[] => {
+  const paths = (
+    state: Record<string, unknown>,
+    path: string,
+  ): { path: string; value: unknown }[] => {
+    const _paths = [] as { path: string; value: unknown }[];
+
+    for (const key in state) {
+      const currentPath = `${path}.${key}`;
+      _paths.push({ path: currentPath, value: state[key] });
+
+      if (typeof state[key] === "object" && state[key] !== null) {
+        _paths.push(
+          ...paths(state[key] as Record<string, unknown>, currentPath),
+        );
+      }
+    }
+
+    return _paths;
+  };
+
+  const oldPaths = paths(oldState as Record<string, unknown>, "$");
+  const oldPathKeys = oldPaths.map((x) => x.path);
+  const newPaths = paths(newState as Record<string, unknown>, "$");
+  const newPathKeys = newPaths.map((x) => x.path);
+
+  const added = newPathKeys.filter((path) => !oldPathKeys.includes(path));
+  const removed = oldPathKeys.filter((path) => !newPathKeys.includes(path));
+  const same = oldPathKeys.filter((path) => newPathKeys.includes(path));
+  const changed = same.filter((path) => {
+    const oldValue = oldPaths.find((x) => x.path === path)?.value;
+    const newValue = newPaths.find((x) => x.path === path)?.value;
+
+    return oldValue !== newValue;
+  });
+
+  return [...new Set([...added, ...removed, ...changed])];
+};
+
+// Some 3000 keys: 100 users with 10 settings each, plus their names.
+const users = Array.from({ length: 100 }, (_, i) => ({
+  name: `user ${i}`,
+  settings: Object.fromEntries(
+    Array.from({ length: 10 }, (_, j) => [`setting${j}`, j]),
+  ),
+}));
+
+const oldState = { counter: 1, users };
+const newState = {
+  counter: 1,
+  users: users.map((user, i) =>
+    i === 50 ? { ...user, name: "renamed" } : user,
+  ),
+};
+
+describe("diffing a state of some 3000 keys with a single change", () => {
+  bench("flattening diff", () => {
+    flatteningDiff(oldState, newState);
+  });
+
+  bench("reference diff", () => {
+    diffState(oldState, newState);
+  });
+
+  bench("reference diff of subscribed paths", () => {
+    diffState(oldState, newState, {
+      report: (path) => path === "$.counter",
+      descend: (path) => path === "$",
+    });
+  });
+});
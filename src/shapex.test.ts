@@ -1,20 +1,63 @@
-import { describe, it, expect, vi } from "vitest";
-import { ShapeX, type EventCallback } from "./shapex.ts";
+import { describe, it, expect, expectTypeOf, vi, afterEach } from "vitest";
+import {
+  ShapeX,
+  debug,
+  diffState,
+  path,
+  validate,
+  type Concurrency,
+  type ErrorEventData,
+  type EventCallback,
+  type InferEventMap,
+  type Interceptor,
+  type StandardSchemaV1,
+  type StateChange,
+} from "./shapex.ts";
+
+/**
+ * Creates a Standard Schema from a function that returns the validated
+ * value, or a message for invalid ones.
+ */
+const schema = <O>(
+  check: (value: unknown) => { value: O } | { message: string },
+  async = false,
+): StandardSchemaV1<unknown, O> => ({
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const checked = check(value);
+      const result =
+        "message" in checked
+          ? { issues: [{ message: checked.message }] }
+          : { value: checked.value };
+
+      return async ? Promise.resolve(result) : result;
+    },
+  },
+});
+
+const numberSchema = (async = false) =>
+  schema(
+    (value) =>
+      typeof value === "number" ? { value } : { message: "Expected a number" },
+    async,
+  );
 
 describe("subscribe", () => {
   it("subscribes to an event", () => {
     const $ = ShapeX({ counter: 1 });
-    const id = $.subscribe("test-event", (state) => ({ state }));
+    const handle = $.subscribe("test-event", (state) => ({ state }));
 
-    expect(id).toBe(1);
+    expect(handle.id).toBe(1);
     expect($.subscriptionCount("test-event")).toBe(1);
   });
 
   it("subscribes to an event once", () => {
     const $ = ShapeX({ counter: 1 });
-    const id = $.subscribeOnce("test-event", (state) => ({ state }));
+    const handle = $.subscribeOnce("test-event", (state) => ({ state }));
 
-    expect(id).toBe(1);
+    expect(handle.id).toBe(1);
     expect($.subscriptionCount("test-event")).toBe(1);
   });
 
@@ -27,26 +70,105 @@ describe("subscribe", () => {
     $.unsubscribe("test-event");
     expect($.subscriptionCount("test-event")).toBe(0);
   });
+
+  it("unsubscribes a single subscription by id", () => {
+    const $ = ShapeX({ counter: 1 });
+    const cb = vi.fn();
+
+    const first = $.subscribe("test-event", (state) => ({ state }));
+    $.subscribe("test-event", cb);
+
+    $.unsubscribe(first.id);
+    $.dispatch("test-event");
+
+    expect($.subscriptionCount("test-event")).toBe(1);
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+
+  it("unsubscribes a single subscription by calling its handle", () => {
+    const $ = ShapeX({ counter: 1 });
+
+    const off = $.subscribe("test-event", (state) => ({ state }));
+    $.subscribe("test-event", (state) => ({ state }));
+
+    off();
+
+    expect($.subscriptionCount("test-event")).toBe(1);
+  });
+
+  it("removes the event name once its last subscription is gone", () => {
+    const $ = ShapeX({ counter: 1 });
+
+    const off = $.subscribe("test-event", (state) => ({ state }));
+    $.subscribeOnce("other-event", (state) => ({ state }));
+
+    off();
+    $.dispatch("other-event");
+
+    expect($.subscriptions()).toEqual([]);
+    expect($.subscriptionCount("test-event")).toBe(0);
+  });
+
+  it("unsubscribes from all events", () => {
+    const $ = ShapeX({ counter: 1 });
+
+    $.subscribe("event1", (state) => ({ state }));
+    $.subscribe("event2", (state) => ({ state }));
+    $.unsubscribeAll();
+
+    expect($.subscriptions()).toEqual([]);
+  });
+
+  it("skips subscriptions removed during a dispatch", () => {
+    const $ = ShapeX({ counter: 1 });
+    const cb = vi.fn();
+
+    $.subscribe("test-event", () => {
+      second();
+    });
+    const second = $.subscribe("test-event", cb);
+
+    $.dispatch("test-event");
+
+    expect(cb).not.toHaveBeenCalled();
+    expect($.subscriptionCount("test-event")).toBe(1);
+  });
+
+  it("keeps subscriptions added during a dispatch", () => {
+    const $ = ShapeX({ counter: 1 });
+    const cb = vi.fn();
+
+    $.subscribeOnce("test-event", () => {
+      $.subscribe("test-event", cb);
+    });
+
+    $.dispatch("test-event");
+    expect(cb).not.toHaveBeenCalled();
+    expect($.subscriptionCount("test-event")).toBe(1);
+
+    $.dispatch("test-event");
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
 });
 
 describe("subscribe: async", () => {
   it("subscribes to an event", () => {
     const $ = ShapeX({ counter: 1 });
-    const id = $.subscribe("test-event", async (state) =>
+    const handle = $.subscribe("test-event", async (state) =>
       Promise.resolve({ state }),
     );
 
-    expect(id).toBe(1);
+    expect(handle.id).toBe(1);
     expect($.subscriptionCount("test-event")).toBe(1);
   });
 
   it("subscribes to an event once", () => {
     const $ = ShapeX({ counter: 1 });
-    const id = $.subscribeOnce("test-event", async (state) =>
+    const handle = $.subscribeOnce("test-event", async (state) =>
       Promise.resolve({ state }),
     );
 
-    expect(id).toBe(1);
+    expect(handle.id).toBe(1);
     expect($.subscriptionCount("test-event")).toBe(1);
   });
 
@@ -74,7 +196,11 @@ describe("dispatch", () => {
     $.subscribe("test-event", spyCb);
     $.dispatch("test-event");
 
-    expect(spyCb).toHaveBeenCalledWith({ counter: 1 });
+    expect(spyCb).toHaveBeenCalledWith(
+      { counter: 1 },
+      undefined,
+      expect.objectContaining({ event: "test-event" }),
+    );
   });
 
   it("dispatches an event with arguments", () => {
@@ -93,7 +219,11 @@ describe("dispatch", () => {
     $.subscribe("test-event", callback);
     $.dispatch("test-event", "arg1-value");
 
-    expect(callback).toHaveBeenCalledWith({ counter: 1 }, "arg1-value");
+    expect(callback).toHaveBeenCalledWith(
+      { counter: 1 },
+      "arg1-value",
+      expect.objectContaining({ event: "test-event" }),
+    );
   });
 
   it("updates state when event handler returns new state", () => {
@@ -113,7 +243,11 @@ describe("dispatch", () => {
 
     $.dispatch("increment");
 
-    expect(spyCb).toHaveBeenCalledWith({ counter: 2 });
+    expect(spyCb).toHaveBeenCalledWith(
+      { counter: 2 },
+      { path: "$.counter", kind: "changed", oldValue: 1, newValue: 2 },
+      expect.objectContaining({ event: "$.counter" }),
+    );
   });
 
   it("dispatches nested events", () => {
@@ -185,7 +319,11 @@ describe("dispatch", () => {
 
     $.dispatch("parent-event");
 
-    expect(spyCb).toHaveBeenCalledWith({ counter: 1 }, "arg-value");
+    expect(spyCb).toHaveBeenCalledWith(
+      { counter: 1 },
+      "arg-value",
+      expect.objectContaining({ event: "nested-event" }),
+    );
   });
 
   it("supports different data types for event callback and dispatch", () => {
@@ -237,6 +375,7 @@ describe("dispatch", () => {
     expect(spyChildCb).toHaveBeenCalledWith(
       { counter: 1 },
       { message: "ID 123 processed" },
+      expect.objectContaining({ event: "child-event" }),
     );
 
     // State should be updated based on the message length
@@ -258,7 +397,11 @@ describe("dispatch: async", () => {
     $.subscribe("test-event", spyCb);
     $.dispatch("test-event");
 
-    expect(spyCb).toHaveBeenCalledWith({ counter: 1 });
+    expect(spyCb).toHaveBeenCalledWith(
+      { counter: 1 },
+      undefined,
+      expect.objectContaining({ event: "test-event" }),
+    );
   });
 
   it("dispatches an event with arguments", () => {
@@ -278,7 +421,11 @@ describe("dispatch: async", () => {
     $.subscribe("test-event", callback);
     $.dispatch("test-event", "arg1-value");
 
-    expect(callback).toHaveBeenCalledWith({ counter: 1 }, "arg1-value");
+    expect(callback).toHaveBeenCalledWith(
+      { counter: 1 },
+      "arg1-value",
+      expect.objectContaining({ event: "test-event" }),
+    );
   });
 
   it("updates state when event handler returns new state", async () => {
@@ -381,206 +528,2461 @@ describe("dispatch: async", () => {
   });
 });
 
-describe("state change detection", () => {
-  it("detects value changes in state", () => {
-    type AppState = {
-      counter: number;
-      nested: {
-        value: string;
+describe("dispatchAsync", () => {
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+  it("resolves once the whole cascade has settled", async () => {
+    const $ = ShapeX({ counter: 1, loaded: false, notified: false });
+
+    $.subscribe("load", async (state) => {
+      await tick();
+      return {
+        state: { ...state, counter: 2 },
+        dispatch: { to: "loaded" },
       };
-    };
+    });
+    $.subscribe("loaded", async (state) => {
+      await tick();
+      return { state: { ...state, loaded: true } };
+    });
+    $.subscribe("$.loaded", async (state) => {
+      await tick();
+      return { state: { ...state, notified: true } };
+    });
 
-    const $ = ShapeX<AppState>({ counter: 1, nested: { value: "test" } });
-    const cb: EventCallback<AppState> = (state) => ({ state });
-    const spyCb = vi.fn(cb);
+    const state = await $.dispatchAsync("load");
 
-    $.subscribe("$.counter", spyCb);
+    expect(state).toEqual({ counter: 2, loaded: true, notified: true });
+  });
 
-    $.subscribe("change-counter", (state) => ({
-      state: { ...state, counter: 2 },
+  it("waits for async effects and the events they dispatch", async () => {
+    const $ = ShapeX({ counter: 1 });
+
+    $.registerEffect("later", async (_, { dispatch }) => {
+      await tick();
+      dispatch("increment");
+    });
+    $.subscribe("increment", async (state) => ({
+      state: { counter: state.counter + 1 },
     }));
+    $.subscribe("test-event", () => ({ effects: { later: true } }));
 
-    $.dispatch("change-counter");
+    await $.dispatchAsync("test-event");
 
-    expect(spyCb).toHaveBeenCalledWith({
-      counter: 2,
-      nested: { value: "test" },
+    expect($.state().counter).toBe(2);
+  });
+
+  it("rejects when a handler in the cascade fails", async () => {
+    const $ = ShapeX({ counter: 1 });
+
+    $.subscribe("fail", async () => {
+      await tick();
+      throw new Error("failed");
     });
+    $.subscribe("test-event", () => ({ dispatch: { to: "fail" } }));
+
+    await expect($.dispatchAsync("test-event")).rejects.toThrow("failed");
   });
 
-  it("detects nested value changes in state", () => {
-    type AppState = {
-      counter: number;
-      nested: {
-        value: string;
-      };
-    };
+  it("rejects with all errors when several handlers fail", async () => {
+    const $ = ShapeX({ counter: 1 });
 
-    const $ = ShapeX<AppState>({ counter: 1, nested: { value: "test" } });
-    const cb: EventCallback<AppState> = (state) => ({ state });
-    const spyCb = vi.fn(cb);
+    $.subscribe("test-event", async () => {
+      throw new Error("first");
+    });
+    $.subscribe("test-event", async () => {
+      throw new Error("second");
+    });
 
-    $.subscribe("$.nested.value", spyCb);
+    const error = await $.dispatchAsync("test-event").catch((e) => e);
 
-    $.subscribe("change-nested-value", (state) => ({
-      state: {
-        ...state,
-        nested: { ...state.nested, value: "new value" },
-      },
-    }));
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error.errors.map((e: Error) => e.message)).toEqual([
+      "first",
+      "second",
+    ]);
+  });
 
-    $.subscribe("change-nested-value-again", (state) => ({
-      state: {
-        ...state,
-        nested: { ...state.nested, value: "new value again" },
-      },
+  it("waits for all in-flight work with settled", async () => {
+    const $ = ShapeX({ first: false, second: false });
+
+    $.subscribe("first", async (state) => {
+      await tick();
+      return { state: { ...state, first: true } };
+    });
+    $.subscribe("second", async () => {
+      await tick();
+      return { dispatch: { to: "second-done" } };
+    });
+    $.subscribe("second-done", (state) => ({
+      state: { ...state, second: true },
     }));
 
-    $.dispatch("change-nested-value");
-    $.dispatch("change-nested-value-again");
+    $.dispatch("first");
+    $.dispatch("second");
+    expect($.state()).toEqual({ first: false, second: false });
 
-    expect(spyCb).toHaveBeenCalledWith({
-      counter: 1,
-      nested: { value: "new value" },
-    });
+    await $.settled();
+    expect($.state()).toEqual({ first: true, second: true });
+  });
+});
+
+describe("scheduled dispatches", () => {
+  afterEach(() => {
+    vi.useRealTimers();
   });
 
-  it("detects addition in state", () => {
-    type AppState = {
-      view?: string;
-    };
+  const searchApp = () => {
+    const $ = ShapeX({ query: "", searches: [] as string[] });
 
-    const $ = ShapeX<AppState>({});
-    const cb: EventCallback<AppState> = (state) => ({ state });
-    const spyCb = vi.fn(cb);
+    $.subscribe("search/run", (state, query: string | undefined) => ({
+      state: { ...state, searches: [...state.searches, query!] },
+    }));
 
-    $.subscribe("$.view", spyCb);
+    return $;
+  };
 
-    $.subscribe("set-view", (state) => {
-      return {
-        state: {
-          ...state,
-          view: "test",
-        },
-      };
-    });
+  it("dispatches an event after a delay", () => {
+    vi.useFakeTimers();
+    const $ = searchApp();
 
-    $.dispatch("set-view");
+    $.subscribe("retry", () => ({
+      dispatch: { to: "search/run", with: "again", after: 5000 },
+    }));
+    $.dispatch("retry");
 
-    expect(spyCb).toHaveBeenCalled();
+    vi.advanceTimersByTime(4999);
+    expect($.state().searches).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    expect($.state().searches).toEqual(["again"]);
   });
 
-  it("detects nested addition in state", () => {
-    type AppState = {
-      nested?: {
-        value?: string;
-      };
-    };
+  it("debounces an event, dispatching it with the latest data", () => {
+    vi.useFakeTimers();
+    const $ = searchApp();
 
-    const $ = ShapeX<AppState>({});
-    const cb: EventCallback<AppState> = (state) => ({ state });
-    const spyCb = vi.fn(cb);
-    const spyCb2 = vi.fn(cb);
+    $.subscribe("search/type", (state, query: string | undefined) => ({
+      state: { ...state, query: query! },
+      dispatch: { to: "search/run", with: query, debounce: 300 },
+    }));
 
-    $.subscribe("$.nested", spyCb);
-    $.subscribe("$.nested.value", spyCb2);
+    $.dispatch("search/type", "s");
+    vi.advanceTimersByTime(200);
+    $.dispatch("search/type", "sh");
+    vi.advanceTimersByTime(200);
+    $.dispatch("search/type", "sha");
+    vi.advanceTimersByTime(299);
+    expect($.state().searches).toEqual([]);
 
-    $.subscribe("set-nested-value", (state) => {
-      return {
-        state: {
-          ...state,
-          nested: { value: "test" },
-        },
-      };
-    });
+    vi.advanceTimersByTime(1);
+    expect($.state().searches).toEqual(["sha"]);
+  });
 
-    $.subscribe("set-nested-value-again", (state) => {
-      return {
-        state: {
-          ...state,
-          nested: { value: "test-again" },
-        },
-      };
-    });
+  it("throttles an event, dispatching the latest data once the window closes", () => {
+    vi.useFakeTimers();
+    const $ = searchApp();
 
-    $.dispatch("set-nested-value");
-    $.dispatch("set-nested-value-again");
+    $.subscribe("search/type", (_, query: string | undefined) => ({
+      dispatch: { to: "search/run", with: query, throttle: 100 },
+    }));
 
-    expect(spyCb).toHaveBeenCalledTimes(2);
-    expect(spyCb2).toHaveBeenCalledTimes(2);
-  });
+    $.dispatch("search/type", "a");
+    $.dispatch("search/type", "ab");
+    $.dispatch("search/type", "abc");
+    expect($.state().searches).toEqual(["a"]);
 
-  it("detects deleted properties in state", () => {
-    type AppState = {
-      counter: number;
-      toDelete?: string;
-    };
+    vi.advanceTimersByTime(100);
+    expect($.state().searches).toEqual(["a", "abc"]);
 
-    const $ = ShapeX<AppState>({ counter: 1, toDelete: "value" });
-    const cb: EventCallback<AppState> = (state) => ({ state });
-    const spyCb = vi.fn(cb);
+    vi.advanceTimersByTime(100);
+    $.dispatch("search/type", "abcd");
+    expect($.state().searches).toEqual(["a", "abc", "abcd"]);
+  });
 
-    $.subscribe("$.toDelete", spyCb);
-    $.subscribe("delete-property", (state) => {
-      const newState = { counter: state.counter };
-      return { state: newState };
-    });
+  it("replaces a dispatch scheduled under the same key", () => {
+    vi.useFakeTimers();
+    const $ = searchApp();
 
-    $.dispatch("delete-property");
+    $.subscribe("retry", (_, query: string | undefined) => ({
+      dispatch: { to: "search/run", with: query, after: 1000, key: "retry" },
+    }));
+    $.dispatch("retry", "first");
+    $.dispatch("retry", "second");
 
-    expect(spyCb).toHaveBeenCalled();
+    vi.advanceTimersByTime(1000);
+    expect($.state().searches).toEqual(["second"]);
   });
 
-  it("detects type changes in state", () => {
-    type AppState = {
-      counter: string | number;
-    };
+  it("lists the scheduled dispatches in the order they are due", () => {
+    vi.useFakeTimers({ now: 0 });
+    const $ = searchApp();
 
-    const $ = ShapeX<AppState>({ counter: 1 });
-    const cb: EventCallback<AppState> = (state) => ({ state });
-    const spyCb = vi.fn(cb);
+    $.subscribe("schedule", () => ({
+      dispatch: [
+        { to: "search/run", with: "later", after: 2000 },
+        { to: "search/run", with: "sooner", debounce: 1000 },
+        { to: "search/run", with: "now", throttle: 500, key: "throttled" },
+      ],
+    }));
+    $.dispatch("schedule");
 
-    $.subscribe("$.counter", spyCb);
-    $.subscribe("change-counter-type", (state) => ({
-      state: { ...state, counter: "string now" },
+    expect($.scheduled()).toEqual([
+      { key: "search/run", event: "search/run", data: "sooner", at: 1000 },
+      { key: undefined, event: "search/run", data: "later", at: 2000 },
+    ]);
+  });
+
+  it("cancels scheduled dispatches", () => {
+    vi.useFakeTimers();
+    const $ = searchApp();
+
+    $.subscribe("schedule", () => ({
+      dispatch: [
+        { to: "search/run", with: "a", after: 100, key: "a" },
+        { to: "search/run", with: "b", after: 100, key: "b" },
+        { to: "search/run", with: "c", after: 100 },
+      ],
     }));
+    $.dispatch("schedule");
 
-    $.dispatch("change-counter-type");
+    $.cancel("a");
+    expect($.scheduled().map(({ data }) => data)).toEqual(["b", "c"]);
 
-    expect(spyCb).toHaveBeenCalled();
+    vi.advanceTimersByTime(100);
+    expect($.state().searches).toEqual(["b", "c"]);
+
+    $.dispatch("schedule");
+    $.cancelAll();
+    vi.advanceTimersByTime(100);
+    expect($.scheduled()).toEqual([]);
+    expect($.state().searches).toEqual(["b", "c"]);
+  });
+
+  it("cancels the scheduled dispatches of a removed module", () => {
+    vi.useFakeTimers();
+    const $ = ShapeX({});
+    const cb = vi.fn();
+    const search = $.module("search", { results: [] as string[] });
+
+    $.subscribe("search/run", cb);
+    search.subscribe("type", () => ({
+      dispatch: { to: "run", debounce: 300 },
+    }));
+    search.subscribe("retry", () => ({
+      dispatch: { to: "/retry", after: 300, key: "retry" },
+    }));
+    search.dispatch("type");
+    search.dispatch("retry");
+    expect($.scheduled().map(({ key }) => key)).toEqual([
+      "search/run",
+      "search/retry",
+    ]);
+
+    search.remove();
+    vi.advanceTimersByTime(300);
+
+    expect($.scheduled()).toEqual([]);
+    expect(cb).not.toHaveBeenCalled();
   });
 });
 
-describe("utility methods", () => {
-  it("returns all subscription names", () => {
-    const $ = ShapeX({ counter: 1 });
+describe("concurrency", () => {
+  /**
+   * A search app whose searches resolve when the test says so.
+   */
+  const searchApp = (concurrency?: Concurrency) => {
+    const $ = ShapeX({ results: [] as string[] });
+    const searches: {
+      query: string;
+      signal: AbortSignal;
+      resolve: () => void;
+    }[] = [];
+
+    $.subscribe(
+      "search",
+      async (state, query: string | undefined, { signal }) => {
+        await new Promise<void>((resolve) => {
+          searches.push({ query: query!, signal, resolve });
+        });
 
-    $.subscribe("event1", (state) => ({ state }));
-    $.subscribe("event2", (state) => ({ state }));
+        return { state: { results: [...$.state().results, query!] } };
+      },
+      concurrency ? { concurrency } : {},
+    );
 
-    const subs = $.subscriptions();
+    return { $, searches };
+  };
 
-    expect(subs).toContain("event1");
-    expect(subs).toContain("event2");
-    expect(subs).toHaveLength(2);
+  it("applies every response by default, in the order they resolve", async () => {
+    const { $, searches } = searchApp();
+
+    $.dispatch("search", "a");
+    $.dispatch("search", "b");
+    searches[1]!.resolve();
+    searches[0]!.resolve();
+    await $.settled();
+
+    // The stale response of "a" overwrites that of "b".
+    expect($.state().results).toEqual(["a"]);
   });
 
-  it("returns subscription count for specific event", () => {
-    const $ = ShapeX({ counter: 1 });
+  it("aborts earlier calls and discards their responses with latest", async () => {
+    const { $, searches } = searchApp("latest");
 
-    $.subscribe("event1", (state) => ({ state }));
-    $.subscribe("event1", (state) => ({ state }));
-    $.subscribe("event2", (state) => ({ state }));
+    $.dispatch("search", "a");
+    $.dispatch("search", "b");
+    expect(searches[0]!.signal.aborted).toBe(true);
+    expect(searches[1]!.signal.aborted).toBe(false);
 
-    expect($.subscriptionCount("event1")).toBe(2);
-    expect($.subscriptionCount("event2")).toBe(1);
+    searches[1]!.resolve();
+    searches[0]!.resolve();
+    await $.settled();
+
+    expect($.state().results).toEqual(["b"]);
   });
 
-  it("returns updated state", () => {
-    const $ = ShapeX({ counter: 1 });
+  it("calls one after another with queue", async () => {
+    const { $, searches } = searchApp("queue");
 
-    $.subscribe("event1", (state) => ({
-      state: { counter: state.counter + 1 },
+    $.dispatch("search", "a");
+    $.dispatch("search", "b");
+    $.dispatch("search", "c");
+    expect(searches.map(({ query }) => query)).toEqual(["a"]);
+
+    const settled = $.settled();
+
+    searches[0]!.resolve();
+    await vi.waitFor(() => expect(searches).toHaveLength(2));
+    searches[1]!.resolve();
+    await vi.waitFor(() => expect(searches).toHaveLength(3));
+    searches[2]!.resolve();
+    await settled;
+
+    expect($.state().results).toEqual(["a", "b", "c"]);
+  });
+
+  it("skips calls while one is pending with drop", async () => {
+    const { $, searches } = searchApp("drop");
+
+    $.dispatch("search", "a");
+    $.dispatch("search", "b");
+    searches[0]!.resolve();
+    await $.settled();
+
+    $.dispatch("search", "c");
+    searches[1]!.resolve();
+    await $.settled();
+
+    expect(searches.map(({ query }) => query)).toEqual(["a", "c"]);
+    expect($.state().results).toEqual(["a", "c"]);
+  });
+
+  it("drops queued calls and aborts pending ones once unsubscribed", async () => {
+    const { $, searches } = searchApp("queue");
+
+    $.dispatch("search", "a");
+    $.dispatch("search", "b");
+    $.dispatch("search", "c");
+    $.unsubscribe("search");
+    expect(searches[0]!.signal.aborted).toBe(true);
+
+    searches[0]!.resolve();
+    await $.settled();
+
+    expect(searches.map(({ query }) => query)).toEqual(["a"]);
+    expect($.state().results).toEqual([]);
+  });
+
+  it("aborts every pending call once unsubscribed", async () => {
+    const { $, searches } = searchApp();
+
+    $.dispatch("search", "a");
+    $.dispatch("search", "b");
+    $.unsubscribeAll();
+    searches[0]!.resolve();
+    searches[1]!.resolve();
+    await $.settled();
+
+    expect(searches.map(({ signal }) => signal.aborted)).toEqual([true, true]);
+    expect($.state().results).toEqual([]);
+  });
+
+  it("waits for queued calls in dispatchAsync", async () => {
+    const $ = ShapeX({ count: 0 });
+
+    $.subscribe(
+      "inc",
+      async (state) => {
+        await Promise.resolve();
+        return { state: { count: state.count + 1 } };
+      },
+      { concurrency: "queue" },
+    );
+
+    $.dispatch("inc");
+    const state = await $.dispatchAsync("inc");
+
+    expect(state.count).toBe(2);
+  });
+});
+
+describe("waiting for events", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("resolves with the next dispatch of an event", async () => {
+    const $ = ShapeX({});
+    const waiting = $.waitFor("auth/success");
+
+    $.dispatch("auth/success", { user: "jane" });
+
+    expect(await waiting).toEqual({
+      event: "auth/success",
+      data: { user: "jane" },
+    });
+    expect($.subscriptionCount("auth/success")).toBe(0);
+  });
+
+  it("waits for an event passing the filter", async () => {
+    const $ = ShapeX({});
+    const waiting = $.waitFor("job/done", {
+      filter: ({ data }) => data === 2,
+    });
+
+    $.dispatch("job/done", 1);
+    $.dispatch("job/done", 2);
+
+    expect((await waiting).data).toBe(2);
+  });
+
+  it("waits for events matching a pattern, and state changes", async () => {
+    const $ = ShapeX({ count: 0 });
+
+    $.subscribe("counter/inc", (state) => ({
+      state: { count: state.count + 1 },
+    }));
+
+    const event = $.waitFor("counter/*");
+    const change = $.waitFor("$.count");
+    $.dispatch("counter/inc");
+
+    expect((await event).event).toBe("counter/inc");
+    expect((await change).data).toEqual({
+      path: "$.count",
+      kind: "changed",
+      oldValue: 0,
+      newValue: 1,
+    });
+  });
+
+  it("types the data of typed events, including built-in ones", () => {
+    const $ = ShapeX<{ count: number }, { set: number }>({ count: 0 });
+
+    expectTypeOf($.waitFor("set")).resolves.toEqualTypeOf<{
+      event: string;
+      data: number;
+    }>();
+    expectTypeOf($.waitFor("shapex/error")).resolves.toEqualTypeOf<{
+      event: string;
+      data: ErrorEventData;
+    }>();
+    expectTypeOf($.events("$.count")).toEqualTypeOf<
+      AsyncIterableIterator<{ event: string; data: StateChange<number> }>
+    >();
+  });
+
+  it("rejects once timed out", async () => {
+    vi.useFakeTimers();
+    const $ = ShapeX({});
+    const waiting = $.waitFor("auth/success", { timeout: 1000 });
+
+    vi.advanceTimersByTime(1000);
+
+    await expect(waiting).rejects.toThrow(
+      'Timed out waiting for "auth/success" after 1000 ms.',
+    );
+    expect($.subscriptionCount("auth/success")).toBe(0);
+  });
+
+  it("rejects once aborted", async () => {
+    const $ = ShapeX({});
+    const controller = new AbortController();
+    const waiting = $.waitFor("auth/success", { signal: controller.signal });
+
+    controller.abort(new Error("Cancelled"));
+
+    await expect(waiting).rejects.toThrow("Cancelled");
+    expect($.subscriptionCount("auth/success")).toBe(0);
+    await expect(
+      $.waitFor("auth/success", { signal: controller.signal }),
+    ).rejects.toThrow("Cancelled");
+  });
+
+  it("iterates over events as they are dispatched", async () => {
+    const $ = ShapeX({});
+    const received: unknown[] = [];
+
+    $.dispatch("cart/add", "early");
+    queueMicrotask(() => {
+      $.dispatch("cart/add", "milk");
+      $.dispatch("cart/remove", "milk");
+      $.dispatch("cart/checkout");
+    });
+
+    for await (const { event, data } of $.events("cart/*")) {
+      received.push([event, data]);
+
+      if (event === "cart/checkout") {
+        break;
+      }
+    }
+
+    expect(received).toEqual([
+      ["cart/add", "milk"],
+      ["cart/remove", "milk"],
+      ["cart/checkout", undefined],
+    ]);
+    expect($.subscriptionCount("cart/*")).toBe(0);
+  });
+
+  it("ends the iteration once aborted", async () => {
+    const $ = ShapeX({});
+    const controller = new AbortController();
+    const received: unknown[] = [];
+
+    queueMicrotask(() => {
+      $.dispatch("tick", 1);
+      controller.abort();
+      $.dispatch("tick", 2);
+    });
+
+    for await (const { data } of $.events("tick", {
+      signal: controller.signal,
+    })) {
+      received.push(data);
+    }
+
+    expect(received).toEqual([1]);
+    expect($.subscriptionCount("tick")).toBe(0);
+  });
+});
+
+describe("errors", () => {
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+  it("keeps running other subscriptions when one throws", () => {
+    const $ = ShapeX({ counter: 1 }, { onError: () => {} });
+    const cb = vi.fn();
+
+    $.subscribeOnce("test-event", () => {
+      throw new Error("failed");
+    });
+    $.subscribe("test-event", cb);
+
+    $.dispatch("test-event");
+
+    expect(cb).toHaveBeenCalled();
+    expect($.subscriptionCount("test-event")).toBe(1);
+  });
+
+  it("reports failures to the onError option", async () => {
+    const onError = vi.fn();
+    const $ = ShapeX({ counter: 1 }, { onError });
+    const error = new Error("failed");
+
+    $.subscribe("sync", () => {
+      throw error;
+    });
+    $.subscribe("async", async () => {
+      await tick();
+      throw error;
+    });
+
+    $.dispatch("sync", 1);
+    $.dispatch("async", 2);
+    await $.settled();
+
+    expect(onError).toHaveBeenNthCalledWith(1, {
+      event: "sync",
+      data: 1,
+      error,
+    });
+    expect(onError).toHaveBeenNthCalledWith(2, {
+      event: "async",
+      data: 2,
+      error,
+    });
+  });
+
+  it("dispatches the shapex/error event", () => {
+    const $ = ShapeX({ counter: 1 });
+    const cb = vi.fn();
+    const error = new Error("failed");
+
+    $.subscribe("shapex/error", cb);
+    $.subscribe("test-event", () => {
+      throw error;
+    });
+
+    $.dispatch("test-event", "data");
+
+    expect(cb).toHaveBeenCalledWith(
+      { counter: 1 },
+      { event: "test-event", data: "data", error },
+      expect.objectContaining({ event: "shapex/error" }),
+    );
+  });
+
+  it("does not dispatch failures of shapex/error subscriptions", () => {
+    const onError = vi.fn();
+    const $ = ShapeX({ counter: 1 }, { onError });
+    const cb = vi.fn(() => {
+      throw new Error("error handler failed");
+    });
+
+    $.subscribe("shapex/error", cb);
+    $.subscribe("test-event", () => {
+      throw new Error("failed");
+    });
+
+    $.dispatch("test-event");
+
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+
+  it("logs failures nobody handles", () => {
+    const $ = ShapeX({ counter: 1 });
+    const error = new Error("failed");
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    $.subscribe("test-event", () => {
+      throw error;
+    });
+
+    $.dispatch("test-event");
+
+    expect(log).toHaveBeenCalledWith(
+      'ShapeX: handling "test-event" failed.',
+      error,
+    );
+    log.mockRestore();
+  });
+
+  it("rolls back the state of a failed cascade", async () => {
+    const $ = ShapeX(
+      { counter: 1 },
+      { rollbackOnError: true, onError: () => {} },
+    );
+    const cb = vi.fn();
+
+    $.subscribe("$.counter", cb);
+    $.subscribe("increment", (state) => ({
+      state: { counter: state.counter + 1 },
+      dispatch: { to: "fail" },
+    }));
+    $.subscribe("fail", async () => {
+      await tick();
+      throw new Error("failed");
+    });
+
+    $.dispatch("increment");
+    expect($.state().counter).toBe(2);
+
+    await $.settled();
+    expect($.state().counter).toBe(1);
+    expect(cb).toHaveBeenCalledTimes(2);
+  });
+
+  it("rolls back only the paths the failed cascade changed", async () => {
+    const $ = ShapeX(
+      { a: 0, b: 0 },
+      { rollbackOnError: true, onError: () => {} },
+    );
+
+    $.subscribe("fa", (state) => ({
+      state: { ...state, a: 1 },
+      dispatch: { to: "fail" },
+    }));
+    $.subscribe("fail", async () => {
+      await tick();
+      throw new Error("failed");
+    });
+    $.subscribe("b", (state) => ({ state: { ...state, b: 1 } }));
+
+    $.dispatch("fa");
+    $.dispatch("b");
+    await $.settled();
+
+    expect($.state()).toEqual({ a: 0, b: 1 });
+  });
+
+  it("keeps the state of failed cascades without rollbackOnError", async () => {
+    const $ = ShapeX({ counter: 1 }, { onError: () => {} });
+
+    $.subscribe("increment", (state) => ({
+      state: { counter: state.counter + 1 },
+      dispatch: { to: "fail" },
+    }));
+    $.subscribe("fail", () => {
+      throw new Error("failed");
+    });
+
+    $.dispatch("increment");
+
+    expect($.state().counter).toBe(2);
+  });
+
+  it("rolls back before dispatchAsync rejects", async () => {
+    const $ = ShapeX(
+      { counter: 1 },
+      { rollbackOnError: true, onError: () => {} },
+    );
+
+    $.subscribe("increment", async (state) => ({
+      state: { counter: state.counter + 1 },
+      dispatch: { to: "fail" },
+    }));
+    $.subscribe("fail", () => {
+      throw new Error("failed");
+    });
+
+    await expect($.dispatchAsync("increment")).rejects.toThrow("failed");
+    expect($.state().counter).toBe(1);
+  });
+});
+
+describe("priorities", () => {
+  it("calls subscriptions of a higher priority first", () => {
+    const $ = ShapeX({});
+    const calls: string[] = [];
+
+    $.subscribe("save", () => void calls.push("default"));
+    $.subscribe("save", () => void calls.push("low"), { priority: -1 });
+    $.subscribe("save", () => void calls.push("high"), { priority: 10 });
+    $.subscribe("save", () => void calls.push("default again"));
+    $.subscribeOnce("save", () => void calls.push("high once"), {
+      priority: 10,
+    });
+
+    $.dispatch("save");
+
+    expect(calls).toEqual([
+      "high",
+      "high once",
+      "default",
+      "default again",
+      "low",
+    ]);
+  });
+
+  it("orders pattern subscriptions by priority as well", () => {
+    const $ = ShapeX({});
+    const calls: string[] = [];
+
+    $.subscribe("user/login", () => void calls.push("exact"));
+    $.subscribe("user/*", () => void calls.push("pattern"), { priority: 1 });
+
+    $.dispatch("user/login");
+
+    expect(calls).toEqual(["pattern", "exact"]);
+  });
+
+  it("stops calling subscriptions once a response says so", () => {
+    const $ = ShapeX({ saved: false });
+    const save = vi.fn(() => ({ state: { saved: true } }));
+
+    $.subscribe("save", save);
+    $.subscribe(
+      "save",
+      (_state, data: string | undefined) => (data ? undefined : { stop: true }),
+      { priority: 1 },
+    );
+
+    $.dispatch("save");
+    expect(save).not.toHaveBeenCalled();
+
+    $.dispatch("save", "data");
+    expect(save).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits for async subscriptions of a higher priority", async () => {
+    const $ = ShapeX({});
+    const calls: string[] = [];
+
+    $.subscribe(
+      "save",
+      async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        calls.push("async validator");
+      },
+      { priority: 2 },
+    );
+    $.subscribe("save", () => void calls.push("sync validator"), {
+      priority: 2,
+    });
+    $.subscribe("save", () => void calls.push("save"));
+
+    await $.dispatchAsync("save");
+
+    expect(calls).toEqual(["sync validator", "async validator", "save"]);
+  });
+
+  it("stops calling subscriptions once an async response says so", async () => {
+    const $ = ShapeX({});
+    const save = vi.fn();
+
+    $.subscribe("save", async () => ({ stop: true }), { priority: 1 });
+    $.subscribe("save", save);
+
+    await $.dispatchAsync("save");
+
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it("keeps calling subscriptions after a failed async one", async () => {
+    const onError = vi.fn();
+    const $ = ShapeX({}, { onError });
+    const save = vi.fn();
+
+    $.subscribe(
+      "save",
+      async () => {
+        throw new Error("Failed");
+      },
+      { priority: 1 },
+    );
+    $.subscribe("save", save);
+
+    $.dispatch("save");
+    await $.settled();
+
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("validation", () => {
+  it("calls subscriptions with data that passes the schema", () => {
+    const $ = ShapeX({ count: 0 });
+    const cb = vi.fn();
+
+    $.defineEvent("add", numberSchema());
+    $.subscribe("add", cb);
+    $.dispatch("add", 1);
+
+    expect(cb).toHaveBeenCalledWith({ count: 0 }, 1, expect.anything());
+  });
+
+  it("calls subscriptions with the validated data", () => {
+    const $ = ShapeX({ count: 0 });
+    const cb = vi.fn();
+
+    $.defineEvent(
+      "add",
+      schema((value) => ({ value: Number(value) })),
+    );
+    $.subscribe("add", cb);
+    $.dispatch("add", "2");
+
+    expect(cb).toHaveBeenCalledWith({ count: 0 }, 2, expect.anything());
+  });
+
+  it("reports invalid data instead of calling subscriptions", () => {
+    const $ = ShapeX({ count: 0 });
+    const cb = vi.fn();
+    const onInvalid = vi.fn();
+
+    $.defineEvent("add", numberSchema());
+    $.subscribe("add", cb);
+    $.subscribe("shapex/validation-error", onInvalid);
+    $.dispatch("add", "one");
+
+    expect(cb).not.toHaveBeenCalled();
+    expect(onInvalid).toHaveBeenCalledWith(
+      { count: 0 },
+      {
+        event: "add",
+        data: "one",
+        issues: [{ message: "Expected a number" }],
+      },
+      expect.anything(),
+    );
+  });
+
+  it("logs invalid data nobody hears about", () => {
+    const $ = ShapeX({ count: 0 });
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    $.defineEvent("add", numberSchema());
+    $.dispatch("add", "one");
+
+    expect(error).toHaveBeenCalledWith('ShapeX: invalid data for "add".', [
+      { message: "Expected a number" },
+    ]);
+
+    error.mockRestore();
+  });
+
+  it("validates with async schemas before calling subscriptions", async () => {
+    const $ = ShapeX({ count: 0 });
+    const cb = vi.fn();
+    const onInvalid = vi.fn();
+
+    $.defineEvent("add", numberSchema(true));
+    $.subscribe("add", (state, by: number | undefined) => ({
+      state: { count: state.count + by! },
+    }));
+    $.subscribe("shapex/validation-error", onInvalid);
+    $.subscribe("add", cb);
+
+    $.dispatch("add", 1);
+    expect(cb).not.toHaveBeenCalled();
+
+    await $.dispatchAsync("add", 2);
+    await $.dispatchAsync("add", "three");
+
+    expect($.state()).toEqual({ count: 3 });
+    expect(onInvalid).toHaveBeenCalledTimes(1);
+  });
+
+  it("infers the event map from schemas", () => {
+    const schemas = {
+      add: numberSchema(),
+      reset: schema<undefined>(() => ({ value: undefined })),
+    };
+
+    const $ = ShapeX<{ count: number }, InferEventMap<typeof schemas>>({
+      count: 0,
+    });
+
+    $.defineEvent("add", schemas.add);
+    $.defineEvent("reset", schemas.reset);
+
+    $.subscribe("add", (_state, by) => {
+      expectTypeOf(by).toEqualTypeOf<number>();
+    });
+
+    $.dispatch("add", 1);
+    $.dispatch("reset");
+
+    // @ts-expect-error the schema's data doesn't match the event's
+    $.defineEvent("add", schemas.reset);
+    // @ts-expect-error add is dispatched with a number
+    $.dispatch("add", "one");
+  });
+});
+
+describe("effects", () => {
+  it("runs registered effects after committing state", () => {
+    const $ = ShapeX({ counter: 1 });
+    const log = vi.fn();
+
+    $.registerEffect("log", (value, { state }) => log(value, state));
+    $.subscribe("increment", (state) => ({
+      state: { counter: state.counter + 1 },
+      effects: { log: "incremented" },
+    }));
+
+    $.dispatch("increment");
+
+    expect(log).toHaveBeenCalledWith("incremented", { counter: 2 });
+  });
+
+  it("runs every effect of a response", () => {
+    const $ = ShapeX({ counter: 1 });
+    const first = vi.fn();
+    const second = vi.fn();
+
+    $.registerEffect("first", first);
+    $.registerEffect("second", second);
+    $.subscribe("test-event", () => ({
+      effects: { first: 1, second: 2 },
+    }));
+
+    $.dispatch("test-event");
+
+    expect(first).toHaveBeenCalledWith(1, expect.anything());
+    expect(second).toHaveBeenCalledWith(2, expect.anything());
+  });
+
+  it("fails on unknown effects without running the others", () => {
+    const onError = vi.fn();
+    const $ = ShapeX({ counter: 1 }, { onError });
+    const known = vi.fn();
+
+    $.registerEffect("known", known);
+    $.subscribe("test-event", () => ({
+      effects: { known: true, unknown: true },
+    }));
+
+    $.dispatch("test-event");
+
+    expect(onError).toHaveBeenCalledWith({
+      event: "test-event",
+      data: undefined,
+      error: new Error(
+        'Unknown effect "unknown", register it with registerEffect() first.',
+      ),
+    });
+    expect(known).not.toHaveBeenCalled();
+  });
+
+  it("lets effect handlers dispatch follow-up events", () => {
+    const $ = ShapeX({ counter: 1 });
+
+    $.registerEffect<number>("delay", (value, { dispatch }) => {
+      dispatch("delayed", value);
+    });
+    $.subscribe("delayed", (state, value: number | undefined) => ({
+      state: { counter: state.counter + (value ?? 0) },
+    }));
+    $.subscribe("test-event", () => ({
+      effects: { delay: 5 },
+    }));
+
+    $.dispatch("test-event");
+
+    expect($.state().counter).toBe(6);
+  });
+
+  it("replaces effect handlers registered under the same name", () => {
+    const $ = ShapeX({ counter: 1 });
+    const original = vi.fn();
+    const replacement = vi.fn();
+
+    $.registerEffect("log", original);
+    $.registerEffect("log", replacement);
+    $.subscribe("test-event", () => ({ effects: { log: true } }));
+
+    $.dispatch("test-event");
+
+    expect(original).not.toHaveBeenCalled();
+    expect(replacement).toHaveBeenCalled();
+  });
+});
+
+describe("coeffects", () => {
+  it("injects declared coeffects into the callback context", () => {
+    const $ = ShapeX({ createdAt: 0 });
+
+    $.registerCoeffect("now", () => 1000);
+    $.subscribe(
+      "create",
+      (state, _, context) => ({
+        state: { ...state, createdAt: context.coeffects.now },
+      }),
+      { coeffects: ["now"] },
+    );
+
+    $.dispatch("create");
+
+    expect($.state().createdAt).toBe(1000);
+  });
+
+  it("only injects the coeffects a subscription declared", () => {
+    const $ = ShapeX({ counter: 1 });
+    const now = vi.fn(() => 1000);
+    const cb = vi.fn();
+
+    $.registerCoeffect("now", now);
+    $.registerCoeffect("id", () => "abc");
+    $.subscribe("test-event", cb, { coeffects: ["id"] });
+
+    $.dispatch("test-event");
+
+    expect(now).not.toHaveBeenCalled();
+    expect(cb).toHaveBeenCalledWith({ counter: 1 }, undefined, {
+      event: "test-event",
+      coeffects: { id: "abc" },
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it("provides fresh coeffect values on every call", () => {
+    const $ = ShapeX({ ids: [] as number[] });
+    let id = 0;
+
+    $.registerCoeffect("id", () => ++id);
+    $.subscribe(
+      "add",
+      (state, _, context) => ({
+        state: { ids: [...state.ids, context.coeffects.id] },
+      }),
+      { coeffects: ["id"] },
+    );
+
+    $.dispatch("add");
+    $.dispatch("add");
+
+    expect($.state().ids).toEqual([1, 2]);
+  });
+
+  it("lets coeffect providers be overridden per instance", () => {
+    const create = () => {
+      const $ = ShapeX({ createdAt: 0 });
+
+      $.registerCoeffect("now", () => Date.now());
+      $.subscribe(
+        "create",
+        (state, _, context) => ({
+          state: { ...state, createdAt: context.coeffects.now },
+        }),
+        { coeffects: ["now"] },
+      );
+
+      return $;
+    };
+
+    const $ = create();
+    const other = create();
+
+    $.registerCoeffect("now", () => 42);
+    $.dispatch("create");
+    other.dispatch("create");
+
+    expect($.state().createdAt).toBe(42);
+    expect(other.state().createdAt).not.toBe(42);
+  });
+
+  it("fails on unknown coeffects", () => {
+    const onError = vi.fn();
+    const $ = ShapeX({ counter: 1 }, { onError });
+    const cb = vi.fn();
+
+    $.subscribe("test-event", cb, { coeffects: ["unknown"] });
+
+    $.dispatch("test-event");
+
+    expect(onError).toHaveBeenCalledWith({
+      event: "test-event",
+      data: undefined,
+      error: new Error(
+        'Unknown coeffect "unknown", register it with registerCoeffect() first.',
+      ),
+    });
+    expect(cb).not.toHaveBeenCalled();
+  });
+});
+
+describe("interceptors", () => {
+  it("runs before hooks in order and after hooks in reverse", () => {
+    const $ = ShapeX({ counter: 1 });
+    const calls: string[] = [];
+    const trace = (name: string): Interceptor => ({
+      before: () => {
+        calls.push(`before ${name}`);
+      },
+      after: () => {
+        calls.push(`after ${name}`);
+      },
+    });
+
+    $.intercept(trace("global"));
+    $.subscribe(
+      "test-event",
+      (state) => {
+        calls.push("callback");
+        return { state };
+      },
+      { interceptors: [trace("local")] },
+    );
+
+    $.dispatch("test-event");
+
+    expect(calls).toEqual([
+      "before global",
+      "before local",
+      "callback",
+      "after local",
+      "after global",
+    ]);
+  });
+
+  it("lets interceptors rewrite the incoming data", () => {
+    const $ = ShapeX({ counter: 1 });
+    const cb = vi.fn();
+
+    $.subscribe("test-event", cb, {
+      interceptors: [
+        {
+          before: (context) => ({ ...context, data: `${context.data}!` }),
+        },
+      ],
+    });
+
+    $.dispatch("test-event", "hello");
+
+    expect(cb).toHaveBeenCalledWith({ counter: 1 }, "hello!", {
+      event: "test-event",
+      coeffects: {},
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it("lets interceptors replace the response", () => {
+    const $ = ShapeX({ counter: 1 });
+
+    $.intercept({
+      after: (context) => {
+        context.response = { state: { counter: 10 } };
+      },
+    });
+    $.subscribe("test-event", (state) => ({ state }));
+
+    $.dispatch("test-event");
+
+    expect($.state().counter).toBe(10);
+  });
+
+  it("lets interceptors short-circuit the callback", () => {
+    const $ = ShapeX({ counter: 1 });
+    const cb = vi.fn();
+    const after = vi.fn();
+    const skipped = vi.fn();
+
+    $.subscribe("test-event", cb, {
+      interceptors: [
+        {
+          before: (context) => {
+            context.response = { state: { counter: 2 } };
+          },
+          after,
+        },
+        { before: skipped },
+      ],
+    });
+
+    $.dispatch("test-event");
+
+    expect(cb).not.toHaveBeenCalled();
+    expect(skipped).not.toHaveBeenCalled();
+    expect(after).toHaveBeenCalled();
+    expect($.state().counter).toBe(2);
+  });
+
+  it("runs after hooks once async callbacks respond", async () => {
+    const $ = ShapeX({ counter: 1 });
+    const after = vi.fn();
+
+    $.intercept({ after });
+    $.subscribe("test-event", async (state) => ({ state }));
+
+    $.dispatch("test-event");
+    expect(after).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(after).toHaveBeenCalled());
+  });
+
+  it("removes instance interceptors", () => {
+    const $ = ShapeX({ counter: 1 });
+    const before = vi.fn();
+
+    const remove = $.intercept({ before });
+    $.subscribe("test-event", (state) => ({ state }));
+
+    remove();
+    $.dispatch("test-event");
+
+    expect(before).not.toHaveBeenCalled();
+  });
+
+  it("focuses callbacks on a path of state", () => {
+    const $ = ShapeX({ counter: 1, cart: { items: [] as string[] } });
+    const cb = vi.fn();
+    const addItem: EventCallback<any, string> = (cart, item) => ({
+      state: { items: [...cart.items, item] },
+    });
+
+    $.subscribe("$.cart.items", cb);
+    $.subscribe("add-item", addItem, { interceptors: [path("$.cart")] });
+
+    $.dispatch("add-item", "apple");
+
+    expect($.state()).toEqual({ counter: 1, cart: { items: ["apple"] } });
+    expect(cb).toHaveBeenCalled();
+  });
+
+  it("puts async responses back into the state as it is by then", async () => {
+    const $ = ShapeX({ x: { n: 0 }, y: 0 });
+    let release: () => void = () => {};
+
+    const inc: EventCallback<any> = async (x) => {
+      await new Promise<void>((resolve) => {
+        release = resolve;
+      });
+
+      return { state: { n: x.n + 1 } };
+    };
+
+    $.subscribe("inc", inc, { interceptors: [path("$.x")] });
+    $.subscribe("set-y", (state) => ({ state: { ...state, y: 1 } }));
+
+    $.dispatch("inc");
+    $.dispatch("set-y");
+    release();
+    await $.settled();
+
+    expect($.state()).toEqual({ x: { n: 1 }, y: 1 });
+  });
+
+  it("focuses callbacks on nested paths", () => {
+    const $ = ShapeX({ a: { b: { c: 1 } } });
+    const increment: EventCallback<any> = (c) => ({ state: c + 1 });
+
+    $.subscribe("increment", increment, {
+      interceptors: [path("$.a"), path("$.b.c")],
+    });
+
+    $.dispatch("increment");
+
+    expect($.state()).toEqual({ a: { b: { c: 2 } } });
+  });
+
+  it("logs events with the debug interceptor", () => {
+    const $ = ShapeX({ counter: 1 });
+    const log = vi.fn();
+
+    $.intercept(debug(log));
+    $.subscribe("test-event", (state) => ({ state }));
+
+    $.dispatch("test-event", 5);
+
+    expect(log).toHaveBeenCalledWith('[shapex] handling "test-event"', {
+      data: 5,
+      state: { counter: 1 },
+    });
+    expect(log).toHaveBeenCalledWith('[shapex] handled "test-event"', {
+      response: { state: { counter: 1 } },
+    });
+  });
+
+  it("skips callbacks for invalid data with the validate interceptor", () => {
+    const $ = ShapeX({ counter: 1 });
+    const cb = vi.fn();
+
+    $.subscribe("test-event", cb, {
+      interceptors: [validate((data) => typeof data === "number")],
+    });
+
+    $.dispatch("test-event", "not a number");
+    $.dispatch("test-event", 1);
+
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("derived state", () => {
+  type AppState = {
+    items: { price: number }[];
+    discount: number;
+    title: string;
+  };
+
+  const initialState: AppState = {
+    items: [{ price: 10 }, { price: 20 }],
+    discount: 5,
+    title: "cart",
+  };
+
+  it("computes derived values from state", () => {
+    const $ = ShapeX<AppState>(initialState);
+
+    $.derive(
+      "cartTotal",
+      ["$.items", "$.discount"],
+      (items: AppState["items"], discount: number) =>
+        items.reduce((total, item) => total + item.price, 0) - discount,
+    );
+
+    expect($.derived("cartTotal")).toBe(25);
+  });
+
+  it("recomputes only when a dependency changes", () => {
+    const $ = ShapeX<AppState>(initialState);
+    const compute = vi.fn((discount: number) => discount * 2);
+
+    $.derive("doubleDiscount", ["$.discount"], compute);
+    $.subscribe("set-title", (state) => ({
+      state: { ...state, title: "new title" },
+    }));
+    $.subscribe("set-discount", (state) => ({
+      state: { ...state, discount: 10 },
+    }));
+
+    $.dispatch("set-title");
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    $.dispatch("set-discount");
+    expect(compute).toHaveBeenCalledTimes(2);
+    expect($.derived("doubleDiscount")).toBe(20);
+  });
+
+  it("notifies subscribers of derived paths when the value changes", () => {
+    const $ = ShapeX<AppState>(initialState);
+    const cb = vi.fn();
+
+    $.derive("hasDiscount", ["$.discount"], (discount) => discount > 0);
+    $.subscribe("$.hasDiscount", cb);
+    $.subscribe("set-discount", (state, discount: number | undefined) => ({
+      state: { ...state, discount: discount ?? 0 },
+    }));
+
+    $.dispatch("set-discount", 10);
+    expect(cb).not.toHaveBeenCalled();
+
+    $.dispatch("set-discount", 0);
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+
+  it("derives values from other derived values", () => {
+    const $ = ShapeX<AppState>(initialState);
+    const cb = vi.fn();
+
+    $.derive("subtotal", ["$.items"], (items: AppState["items"]) =>
+      items.reduce((total, item) => total + item.price, 0),
+    );
+    $.derive(
+      "total",
+      ["$.subtotal", "$.discount"],
+      (subtotal, discount) => subtotal - discount,
+    );
+    $.subscribe("$.total", cb);
+    $.subscribe("add-item", (state) => ({
+      state: { ...state, items: [...state.items, { price: 5 }] },
+    }));
+
+    $.dispatch("add-item");
+
+    expect($.derived("subtotal")).toBe(35);
+    expect($.derived("total")).toBe(30);
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+
+  it("recomputes dependants of a node derived after them", () => {
+    const $ = ShapeX<AppState>(initialState);
+
+    $.derive("total", ["$.subtotal"], (subtotal) => subtotal ?? 0);
+    $.derive("subtotal", ["$.items"], (items: AppState["items"]) =>
+      items.reduce((total, item) => total + item.price, 0),
+    );
+
+    expect($.derived("total")).toBe(30);
+  });
+
+  it("detects cycles between derived nodes", () => {
+    const $ = ShapeX<AppState>(initialState);
+
+    $.derive("a", ["$.b"], (b) => b);
+    $.derive("b", ["$.c"], (c) => c);
+
+    expect(() => $.derive("c", ["$.a"], (a) => a)).toThrow(
+      "Derived nodes form a cycle: $.a -> $.b -> $.c -> $.a",
+    );
+    expect($.derived("c")).toBeUndefined();
+  });
+
+  it("rejects names that conflict with state keys", () => {
+    const $ = ShapeX<AppState>(initialState);
+
+    expect(() => $.derive("title", ["$.items"], () => "")).toThrow(
+      'Derived node "title" conflicts with a state key.',
+    );
+  });
+
+  it("types derived paths and values", () => {
+    type AppEvents = { "set-discount": number };
+    type AppDerived = { hasDiscount: boolean };
+
+    const $ = ShapeX<AppState, AppEvents, AppDerived>(initialState);
+
+    $.derive("hasDiscount", ["$.discount"], (discount) => discount > 0);
+    $.subscribe("$.hasDiscount", (state) => ({ state }));
+
+    // @ts-expect-error unknown derived path
+    $.subscribe("$.hasDiscounts", (state) => ({ state }));
+
+    expectTypeOf($.derived("hasDiscount")).toEqualTypeOf<boolean>();
+  });
+});
+
+describe("selector stores", () => {
+  const todoApp = () => {
+    const $ = ShapeX({
+      todos: [] as { title: string; done: boolean }[],
+      filter: "all",
+    });
+
+    $.subscribe("add", (state, title: string | undefined) => ({
+      state: {
+        ...state,
+        todos: [...state.todos, { title: title!, done: false }],
+      },
+    }));
+    $.subscribe("filter", (state, filter: string | undefined) => ({
+      state: { ...state, filter: filter! },
+    }));
+
+    return $;
+  };
+
+  const shallowEqual = (a: unknown[], b: unknown[]) =>
+    a.length === b.length && a.every((value, i) => Object.is(value, b[i]));
+
+  it("selects a value with a function or a path", () => {
+    const $ = todoApp();
+    $.dispatch("add", "Milk");
+
+    expect($.select((state) => state.todos.length).getSnapshot()).toBe(1);
+    expect($.select("$.filter").getSnapshot()).toBe("all");
+    expect($.select("$.todos.0.title").getSnapshot()).toBe("Milk");
+  });
+
+  it("memoizes the selected value while it is equal", () => {
+    const $ = todoApp();
+    const store = $.select(
+      (state) => state.todos.filter((todo) => !todo.done),
+      shallowEqual,
+    );
+    const snapshot = store.getSnapshot();
+
+    expect(store.getSnapshot()).toBe(snapshot);
+    $.dispatch("filter", "done");
+    expect(store.getSnapshot()).toBe(snapshot);
+    $.dispatch("add", "Milk");
+    expect(store.getSnapshot()).not.toBe(snapshot);
+  });
+
+  it("calls listeners right away, and only when the value changes", () => {
+    const $ = todoApp();
+    const listener = vi.fn();
+    const unsubscribe = $.select("$.filter").subscribe(listener);
+
+    $.dispatch("add", "Milk");
+    $.dispatch("filter", "done");
+    $.dispatch("filter", "done");
+    unsubscribe();
+    $.dispatch("filter", "all");
+
+    expect(listener.mock.calls).toEqual([["all"], ["done"]]);
+  });
+
+  it("selects derived nodes", () => {
+    const $ = todoApp();
+    const listener = vi.fn();
+
+    $.derive("count", ["$.todos"], (todos: unknown[]) => todos.length);
+    $.select("$.count").subscribe(listener);
+    $.batch(() => {
+      $.dispatch("add", "Milk");
+      $.dispatch("add", "Eggs");
+    });
+
+    expect(listener.mock.calls).toEqual([[0], [2]]);
+  });
+
+  it("works with useSyncExternalStore", () => {
+    const $ = todoApp();
+    const store = $.select((state) => state.filter);
+    const onStoreChange = vi.fn();
+
+    // React calls both without binding them to the store.
+    const { subscribe, getSnapshot } = store;
+    subscribe(onStoreChange);
+    onStoreChange.mockClear();
+    $.dispatch("filter", "done");
+
+    expect(onStoreChange).toHaveBeenCalledTimes(1);
+    expect(getSnapshot()).toBe("done");
+  });
+
+  it("is observable", () => {
+    const $ = todoApp();
+    const store = $.select("$.filter");
+    const observable = store["@@observable"]();
+    const next = vi.fn();
+
+    const subscription = observable.subscribe({ next });
+    $.dispatch("filter", "done");
+    subscription.unsubscribe();
+    $.dispatch("filter", "all");
+
+    expect(observable["@@observable"]().subscribe).toBeTypeOf("function");
+    expect(next.mock.calls).toEqual([["all"], ["done"]]);
+  });
+});
+
+describe("patterns", () => {
+  it("matches a single segment of event names with *", () => {
+    const $ = ShapeX({ counter: 1 });
+    const cb = vi.fn();
+
+    $.subscribe("cart:*", cb);
+
+    $.dispatch("cart:add", 1);
+    $.dispatch("cart:remove", 2);
+    $.dispatch("cart:items:clear");
+    $.dispatch("user:login");
+
+    expect(cb).toHaveBeenCalledTimes(2);
+    expect(cb).toHaveBeenNthCalledWith(
+      1,
+      { counter: 1 },
+      1,
+      expect.objectContaining({ event: "cart:add" }),
+    );
+    expect(cb).toHaveBeenNthCalledWith(
+      2,
+      { counter: 1 },
+      2,
+      expect.objectContaining({ event: "cart:remove" }),
+    );
+  });
+
+  it("matches any number of segments with **", () => {
+    const $ = ShapeX({ counter: 1 });
+    const events: string[] = [];
+
+    $.subscribe("cart/**", (_, __, { event }) => {
+      events.push(event);
+    });
+
+    $.dispatch("cart/add");
+    $.dispatch("cart/items/clear");
+    $.dispatch("cart");
+    $.dispatch("user/login");
+
+    expect(events).toEqual(["cart/add", "cart/items/clear"]);
+  });
+
+  it("matches state paths", () => {
+    type AppState = {
+      todos: { title: string; done: boolean }[];
+      users: { name: string }[];
+    };
+
+    const $ = ShapeX<AppState>({
+      todos: [{ title: "a", done: false }],
+      users: [{ name: "a" }],
+    });
+    const done: string[] = [];
+    const users: string[] = [];
+
+    $.subscribe("$.todos.*.done", (_, __, { event }) => {
+      done.push(event);
+    });
+    $.subscribe("$.users.**", (_, __, { event }) => {
+      users.push(event);
+    });
+    $.subscribe("complete", (state) => ({
+      state: {
+        todos: [{ title: "a", done: true }],
+        users: [{ name: "b" }],
+      },
+    }));
+
+    $.dispatch("complete");
+
+    expect(done).toEqual(["$.todos.0.done"]);
+    expect(users.sort()).toEqual(["$.users.0", "$.users.0.name"]);
+  });
+
+  it("calls exact and pattern subscriptions in subscription order", () => {
+    const $ = ShapeX({ counter: 1 });
+    const calls: string[] = [];
+
+    $.subscribe("cart:*", () => {
+      calls.push("pattern");
+    });
+    $.subscribe("cart:add", () => {
+      calls.push("exact");
+    });
+    $.subscribe("cart:**", () => {
+      calls.push("deep pattern");
+    });
+
+    $.dispatch("cart:add");
+
+    expect(calls).toEqual(["pattern", "exact", "deep pattern"]);
+  });
+
+  it("unsubscribes from patterns", () => {
+    const $ = ShapeX({ counter: 1 });
+    const cb = vi.fn();
+
+    const off = $.subscribe("cart:*", cb);
+    $.subscribeOnce("user:*", cb);
+
+    expect($.subscriptionCount("cart:*")).toBe(1);
+
+    off();
+    $.dispatch("cart:add");
+    $.dispatch("user:login");
+    $.dispatch("user:logout");
+
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect($.subscriptions()).toEqual([]);
+  });
+
+  it("accepts patterns with typed events", () => {
+    type AppEvents = { "cart:add": number; "cart:remove": number };
+
+    const $ = ShapeX<{ counter: number }, AppEvents>({ counter: 1 });
+    const cb = vi.fn();
+
+    $.subscribe("cart:*", cb);
+    $.dispatch("cart:add", 1);
+
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("state change detection", () => {
+  it("detects value changes in state", () => {
+    type AppState = {
+      counter: number;
+      nested: {
+        value: string;
+      };
+    };
+
+    const $ = ShapeX<AppState>({ counter: 1, nested: { value: "test" } });
+    const cb: EventCallback<AppState> = (state) => ({ state });
+    const spyCb = vi.fn(cb);
+
+    $.subscribe("$.counter", spyCb);
+
+    $.subscribe("change-counter", (state) => ({
+      state: { ...state, counter: 2 },
+    }));
+
+    $.dispatch("change-counter");
+
+    expect(spyCb).toHaveBeenCalledWith(
+      {
+        counter: 2,
+        nested: { value: "test" },
+      },
+      { path: "$.counter", kind: "changed", oldValue: 1, newValue: 2 },
+      expect.objectContaining({ event: "$.counter" }),
+    );
+  });
+
+  it("detects nested value changes in state", () => {
+    type AppState = {
+      counter: number;
+      nested: {
+        value: string;
+      };
+    };
+
+    const $ = ShapeX<AppState>({ counter: 1, nested: { value: "test" } });
+    const cb: EventCallback<AppState> = (state) => ({ state });
+    const spyCb = vi.fn(cb);
+
+    $.subscribe("$.nested.value", spyCb);
+
+    $.subscribe("change-nested-value", (state) => ({
+      state: {
+        ...state,
+        nested: { ...state.nested, value: "new value" },
+      },
+    }));
+
+    $.subscribe("change-nested-value-again", (state) => ({
+      state: {
+        ...state,
+        nested: { ...state.nested, value: "new value again" },
+      },
+    }));
+
+    $.dispatch("change-nested-value");
+    $.dispatch("change-nested-value-again");
+
+    expect(spyCb).toHaveBeenCalledWith(
+      {
+        counter: 1,
+        nested: { value: "new value" },
+      },
+      {
+        path: "$.nested.value",
+        kind: "changed",
+        oldValue: "test",
+        newValue: "new value",
+      },
+      expect.objectContaining({ event: "$.nested.value" }),
+    );
+  });
+
+  it("detects addition in state", () => {
+    type AppState = {
+      view?: string;
+    };
+
+    const $ = ShapeX<AppState>({});
+    const cb: EventCallback<AppState> = (state) => ({ state });
+    const spyCb = vi.fn(cb);
+
+    $.subscribe("$.view", spyCb);
+
+    $.subscribe("set-view", (state) => {
+      return {
+        state: {
+          ...state,
+          view: "test",
+        },
+      };
+    });
+
+    $.dispatch("set-view");
+
+    expect(spyCb).toHaveBeenCalled();
+  });
+
+  it("detects nested addition in state", () => {
+    type AppState = {
+      nested?: {
+        value?: string;
+      };
+    };
+
+    const $ = ShapeX<AppState>({});
+    const cb: EventCallback<AppState> = (state) => ({ state });
+    const spyCb = vi.fn(cb);
+    const spyCb2 = vi.fn(cb);
+
+    $.subscribe("$.nested", spyCb);
+    $.subscribe("$.nested.value", spyCb2);
+
+    $.subscribe("set-nested-value", (state) => {
+      return {
+        state: {
+          ...state,
+          nested: { value: "test" },
+        },
+      };
+    });
+
+    $.subscribe("set-nested-value-again", (state) => {
+      return {
+        state: {
+          ...state,
+          nested: { value: "test-again" },
+        },
+      };
+    });
+
+    $.dispatch("set-nested-value");
+    $.dispatch("set-nested-value-again");
+
+    expect(spyCb).toHaveBeenCalledTimes(2);
+    expect(spyCb2).toHaveBeenCalledTimes(2);
+  });
+
+  it("detects deleted properties in state", () => {
+    type AppState = {
+      counter: number;
+      toDelete?: string;
+    };
+
+    const $ = ShapeX<AppState>({ counter: 1, toDelete: "value" });
+    const cb: EventCallback<AppState> = (state) => ({ state });
+    const spyCb = vi.fn(cb);
+
+    $.subscribe("$.toDelete", spyCb);
+    $.subscribe("delete-property", (state) => {
+      const newState = { counter: state.counter };
+      return { state: newState };
+    });
+
+    $.dispatch("delete-property");
+
+    expect(spyCb).toHaveBeenCalled();
+  });
+
+  it("detects type changes in state", () => {
+    type AppState = {
+      counter: string | number;
+    };
+
+    const $ = ShapeX<AppState>({ counter: 1 });
+    const cb: EventCallback<AppState> = (state) => ({ state });
+    const spyCb = vi.fn(cb);
+
+    $.subscribe("$.counter", spyCb);
+    $.subscribe("change-counter-type", (state) => ({
+      state: { ...state, counter: "string now" },
+    }));
+
+    $.dispatch("change-counter-type");
+
+    expect(spyCb).toHaveBeenCalled();
+  });
+});
+
+describe("state changes", () => {
+  it("passes the change of an added or removed path", () => {
+    const $ = ShapeX<{ view?: string }>({});
+    const cb = vi.fn();
+
+    $.subscribe("$.view", cb);
+    $.setState({ view: "home" });
+    $.setState({});
+
+    expect(cb.mock.calls.map(([, change]) => change)).toEqual([
+      { path: "$.view", kind: "added", oldValue: undefined, newValue: "home" },
+      {
+        path: "$.view",
+        kind: "removed",
+        oldValue: "home",
+        newValue: undefined,
+      },
+    ]);
+  });
+
+  it("passes the change of a derived node", () => {
+    const $ = ShapeX({ items: [1, 2] });
+    const cb = vi.fn();
+
+    $.derive("total", ["$.items"], (items: number[]) =>
+      items.reduce((a, b) => a + b, 0),
+    );
+    $.subscribe("$.total", cb);
+    $.setState({ items: [1, 2, 3] });
+
+    expect(cb).toHaveBeenCalledWith(
+      { items: [1, 2, 3] },
+      { path: "$.total", kind: "changed", oldValue: 3, newValue: 6 },
+      expect.anything(),
+    );
+  });
+
+  it("calls onStateChange with every change of a state update", () => {
+    const onStateChange = vi.fn();
+    const $ = ShapeX({ a: 1, b: { c: 1 } }, { onStateChange });
+    const cb = vi.fn(() => {
+      expect(onStateChange).toHaveBeenCalled();
+    });
+
+    $.subscribe("$.a", cb);
+    $.setState({ a: 2, b: { c: 2 } });
+
+    expect(onStateChange).toHaveBeenCalledTimes(1);
+    expect(onStateChange).toHaveBeenCalledWith([
+      { path: "$.a", kind: "changed", oldValue: 1, newValue: 2 },
+      { path: "$.b", kind: "changed", oldValue: { c: 1 }, newValue: { c: 2 } },
+      { path: "$.b.c", kind: "changed", oldValue: 1, newValue: 2 },
+    ]);
+    expect(cb).toHaveBeenCalled();
+  });
+});
+
+describe("batching", () => {
+  const cartApp = (options = {}) => {
+    const $ = ShapeX({ cart: [] as string[], open: false }, options);
+
+    $.subscribe("add", (state, item: string | undefined) => ({
+      state: { ...state, cart: [...state.cart, item!] },
+    }));
+
+    $.subscribe("add-all", (_state, items: string[] | undefined) => ({
+      dispatch: items!.map((item) => ({ to: "add", with: item })),
+    }));
+
+    return $;
+  };
+
+  it("notifies each changed path once against the final state", () => {
+    const $ = cartApp();
+    const cb = vi.fn();
+
+    $.subscribe("$.cart", cb);
+
+    const result = $.batch(() => {
+      $.dispatch("add", "apple");
+      $.dispatch("add", "pear");
+
+      expect(cb).not.toHaveBeenCalled();
+      expect($.state().cart).toEqual(["apple", "pear"]);
+
+      return "done";
+    });
+
+    expect(result).toBe("done");
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect(cb).toHaveBeenCalledWith(
+      { cart: ["apple", "pear"], open: false },
+      {
+        path: "$.cart",
+        kind: "changed",
+        oldValue: [],
+        newValue: ["apple", "pear"],
+      },
+      expect.anything(),
+    );
+  });
+
+  it("leaves out paths changed back within the batch", () => {
+    const $ = cartApp();
+    const cb = vi.fn();
+
+    $.subscribe("$.open", cb);
+    $.batch(() => {
+      $.setState({ ...$.state(), open: true });
+      $.setState({ ...$.state(), open: false });
+    });
+
+    expect(cb).not.toHaveBeenCalled();
+  });
+
+  it("makes batches within a batch part of it", () => {
+    const $ = cartApp();
+    const cb = vi.fn();
+
+    $.subscribe("$.cart", cb);
+    $.batch(() => {
+      $.batch(() => $.dispatch("add", "apple"));
+      expect(cb).not.toHaveBeenCalled();
+      $.dispatch("add", "pear");
+    });
+
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+
+  it("updates derived nodes once at the end", () => {
+    const $ = cartApp();
+    const compute = vi.fn((cart: string[]) => cart.length);
+
+    $.derive("count", ["$.cart"], compute);
+    $.batch(() => {
+      $.dispatch("add", "apple");
+      $.dispatch("add", "pear");
+    });
+
+    expect(compute).toHaveBeenCalledTimes(2);
+    expect($.derived("count")).toBe(2);
+  });
+
+  it("restores state when the batch throws", () => {
+    const $ = cartApp();
+    const cb = vi.fn();
+
+    $.subscribe("$.cart", cb);
+
+    expect(() =>
+      $.batch(() => {
+        $.dispatch("add", "apple");
+        throw new Error("Abort");
+      }),
+    ).toThrow("Abort");
+
+    expect($.state()).toEqual({ cart: [], open: false });
+    expect(cb).not.toHaveBeenCalled();
+  });
+
+  it("batches whole cascades with the batchCascades option", () => {
+    const $ = cartApp({ batchCascades: true });
+    const cb = vi.fn();
+
+    $.subscribe("$.cart", cb);
+    $.dispatch("add-all", ["apple", "pear", "plum"]);
+
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect($.state().cart).toEqual(["apple", "pear", "plum"]);
+  });
+
+  it("notifies right away without batching", () => {
+    const $ = cartApp();
+    const cb = vi.fn();
+
+    $.subscribe("$.cart", cb);
+    $.dispatch("add-all", ["apple", "pear", "plum"]);
+
+    expect(cb).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("state diffing", () => {
+  it("lists added, removed and changed paths", () => {
+    const changes = diffState(
+      { a: 1, b: { c: 1, d: 1 }, removed: { e: 1 } },
+      { a: 2, b: { c: 1, d: 2 }, added: { f: 1 } },
+    );
+
+    expect(changes.sort((a, b) => a.path.localeCompare(b.path))).toEqual([
+      { path: "$.a", kind: "changed", oldValue: 1, newValue: 2 },
+      {
+        path: "$.added",
+        kind: "added",
+        oldValue: undefined,
+        newValue: { f: 1 },
+      },
+      { path: "$.added.f", kind: "added", oldValue: undefined, newValue: 1 },
+      {
+        path: "$.b",
+        kind: "changed",
+        oldValue: { c: 1, d: 1 },
+        newValue: { c: 1, d: 2 },
+      },
+      { path: "$.b.d", kind: "changed", oldValue: 1, newValue: 2 },
+      {
+        path: "$.removed",
+        kind: "removed",
+        oldValue: { e: 1 },
+        newValue: undefined,
+      },
+      {
+        path: "$.removed.e",
+        kind: "removed",
+        oldValue: 1,
+        newValue: undefined,
+      },
+    ]);
+  });
+
+  it("skips subtrees whose reference did not change", () => {
+    const keys = vi.fn();
+    const shared = new Proxy(
+      { deep: { value: 1 } },
+      {
+        ownKeys: (target) => {
+          keys();
+          return Reflect.ownKeys(target);
+        },
+      },
+    );
+
+    const changes = diffState({ shared, counter: 1 }, { shared, counter: 2 });
+
+    expect(changes.map((change) => change.path)).toEqual(["$.counter"]);
+    expect(keys).not.toHaveBeenCalled();
+  });
+
+  it("lists only the paths a filter asks for", () => {
+    const changes = diffState(
+      { a: { b: 1, c: 1 }, d: { e: 1 } },
+      { a: { b: 2, c: 2 }, d: { e: 2 } },
+      {
+        report: (path) => path === "$.a.b",
+        descend: (path) => path === "$" || path === "$.a",
+      },
+    );
+
+    expect(changes.map((change) => change.path)).toEqual(["$.a.b"]);
+  });
+
+  it("only diffs subscribed paths with the subscribed diff option", () => {
+    const $ = ShapeX(
+      { a: { b: 1, c: 1 }, d: { e: 1 }, todos: [{ done: false }] },
+      { diff: "subscribed" },
+    );
+    const events: string[] = [];
+    const record = (_: unknown, __: unknown, { event }: { event: string }) => {
+      events.push(event);
+    };
+
+    $.subscribe("$.a.b", record);
+    $.subscribe("$.todos.*.done", record);
+    $.derive("e", ["$.d.e"], (e) => e * 2);
+    $.subscribe("change", () => ({
+      state: { a: { b: 2, c: 2 }, d: { e: 2 }, todos: [{ done: true }] },
+    }));
+
+    $.dispatch("change");
+
+    expect(events).toEqual(["$.a.b", "$.todos.0.done"]);
+    expect($.derived("e")).toBe(4);
+  });
+
+  it("stops diffing paths that are no longer subscribed", () => {
+    const $ = ShapeX({ a: { b: 1 } }, { diff: "subscribed" });
+    const cb = vi.fn();
+
+    const off = $.subscribe("$.a.b", cb);
+    $.subscribe("change", (state) => ({ state: { a: { b: state.a.b + 1 } } }));
+    off();
+    $.subscribe("$.a", cb);
+
+    $.dispatch("change");
+
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("modules", () => {
+  type CartState = { items: string[] };
+
+  it("adds its initial state under its name", () => {
+    const $ = ShapeX<Record<string, unknown>>({ user: "John" });
+    const cart = $.module("cart", { items: [] });
+
+    expect($.state()).toEqual({ user: "John", cart: { items: [] } });
+    expect(cart.state()).toEqual({ items: [] });
+    expect(cart.name).toBe("cart");
+  });
+
+  it("keeps state that is already there", () => {
+    const $ = ShapeX<Record<string, unknown>>({ cart: { items: ["apple"] } });
+    const cart = $.module("cart", { items: [] });
+
+    expect(cart.state()).toEqual({ items: ["apple"] });
+  });
+
+  it("prefixes its events and scopes its callbacks to its state", () => {
+    const $ = ShapeX<Record<string, unknown>>({ user: "John" });
+    const cart = $.module<CartState>("cart", { items: [] });
+    const cb = vi.fn();
+
+    $.subscribe("cart/added", cb);
+    cart.subscribe("add", (state, item: string | undefined) => ({
+      state: { items: [...state.items, item!] },
+      dispatch: { to: "added", with: item },
+    }));
+
+    $.dispatch("cart/add", "apple");
+    cart.dispatch("add", "pear");
+
+    expect($.state()).toEqual({
+      user: "John",
+      cart: { items: ["apple", "pear"] },
+    });
+    expect(cb).toHaveBeenCalledTimes(2);
+  });
+
+  it("makes state paths relative to its state", () => {
+    const $ = ShapeX<Record<string, unknown>>({});
+    const cart = $.module<CartState>("cart", { items: [] });
+    const cb = vi.fn();
+
+    cart.subscribe("$.items", cb);
+    $.setState({ cart: { items: ["apple"] } });
+
+    expect(cb).toHaveBeenCalledWith(
+      { items: ["apple"] },
+      expect.objectContaining({ path: "$.items", newValue: ["apple"] }),
+      expect.objectContaining({ event: "$.items" }),
+    );
+  });
+
+  it("leaves names starting with a slash as they are", async () => {
+    const $ = ShapeX<Record<string, unknown>>({});
+    const cart = $.module<CartState>("cart", { items: [] });
+    const cb = vi.fn();
+
+    $.subscribe("user/logout", () => ({ dispatch: { to: "cart/clear" } }));
+    cart.subscribe("clear", () => ({ state: { items: [] } }));
+    cart.subscribe("/user/login", () => ({ dispatch: { to: "/user/ready" } }));
+    $.subscribe("user/ready", cb);
+
+    $.dispatch("user/login");
+
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect(await cart.dispatchAsync("/user/logout")).toEqual({ items: [] });
+  });
+
+  it("unsubscribes only its own subscriptions", () => {
+    const $ = ShapeX<Record<string, unknown>>({});
+    const cart = $.module<CartState>("cart", { items: [] });
+    const own = vi.fn();
+    const other = vi.fn();
+
+    $.subscribe("cart/add", other);
+    cart.subscribe("add", own);
+    const handle = cart.subscribe("add", own);
+
+    cart.unsubscribe(handle);
+    cart.dispatch("add");
+    expect(own).toHaveBeenCalledTimes(1);
+
+    cart.unsubscribe("add");
+    cart.dispatch("add");
+    expect(own).toHaveBeenCalledTimes(1);
+    expect(other).toHaveBeenCalledTimes(2);
+  });
+
+  it("is removed along with its subscriptions and state", () => {
+    const $ = ShapeX<Record<string, unknown>>({ user: "John" });
+    const cart = $.module<CartState>("cart", { items: [] });
+    const cb = vi.fn();
+
+    cart.subscribe("add", cb);
+    cart.remove();
+    $.dispatch("cart/add");
+
+    expect(cb).not.toHaveBeenCalled();
+    expect($.state()).toEqual({ user: "John" });
+    expect($.subscriptions()).toEqual([]);
+
+    expect(() => $.module("cart", { items: [] })).not.toThrow();
+  });
+
+  it("puts async responses back into the state as it is by then", async () => {
+    const $ = ShapeX<Record<string, unknown>>({ other: 0 });
+    const cart = $.module("cart", { n: 0 });
+    let release: () => void = () => {};
+
+    cart.subscribe("add", async (state) => {
+      await new Promise<void>((resolve) => {
+        release = resolve;
+      });
+
+      return { state: { n: state.n + 1 } };
+    });
+    $.subscribe("bump", (state) => ({ state: { ...state, other: 1 } }));
+
+    cart.dispatch("add");
+    $.dispatch("bump");
+    release();
+    await $.settled();
+
+    expect($.state()).toEqual({ other: 1, cart: { n: 1 } });
+  });
+
+  it("drops the responses of async callbacks pending once removed", async () => {
+    const $ = ShapeX<Record<string, unknown>>({});
+    const jobs = $.module("jobs", { done: 0 });
+    let resolve: () => void = () => {};
+
+    jobs.subscribe("run", async (state) => {
+      await new Promise<void>((r) => {
+        resolve = r;
+      });
+
+      return { state: { done: state.done + 1 } };
+    });
+    jobs.subscribeOnce("run", async (state) => {
+      await Promise.resolve();
+
+      return { state: { done: state.done + 1 } };
+    });
+
+    jobs.dispatch("run");
+    jobs.remove();
+    resolve();
+    await $.settled();
+
+    expect($.state()).toEqual({});
+  });
+
+  it("can't be registered twice", () => {
+    const $ = ShapeX<Record<string, unknown>>({});
+
+    $.module("cart", {});
+
+    expect(() => $.module("cart", {})).toThrow(
+      'Module "cart" is already registered.',
+    );
+  });
+
+  it("types its events and state paths", () => {
+    const $ = ShapeX<Record<string, unknown>>({});
+    const cart = $.module<CartState, { add: string; clear: undefined }>(
+      "cart",
+      { items: [] },
+    );
+
+    cart.subscribe("add", (state, item) => {
+      expectTypeOf(state).toEqualTypeOf<CartState>();
+      expectTypeOf(item).toEqualTypeOf<string>();
+    });
+    cart.subscribe("$.items", () => {});
+
+    cart.dispatch("add", "apple");
+    cart.dispatch("clear");
+
+    // @ts-expect-error unknown event
+    cart.dispatch("remove");
+    // @ts-expect-error unknown state path
+    cart.subscribe("$.total", () => {});
+  });
+});
+
+describe("utility methods", () => {
+  it("replaces state and notifies state listeners", () => {
+    const $ = ShapeX({ counter: 1, other: 1 });
+    const cb = vi.fn();
+
+    $.subscribe("$.counter", cb);
+    $.setState({ counter: 2, other: 1 });
+
+    expect($.state()).toEqual({ counter: 2, other: 1 });
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+
+  it("observes dispatches and state updates", () => {
+    const $ = ShapeX({ counter: 1 });
+    const dispatches: unknown[] = [];
+    const dispatched: unknown[] = [];
+    const commits: unknown[] = [];
+
+    $.subscribe("increment", (state) => ({
+      state: { counter: state.counter + 1 },
+    }));
+
+    const stop = $.observe({
+      dispatch: (record) => dispatches.push(record),
+      dispatched: (record) => dispatched.push(record.event),
+      commit: (record) => commits.push(record),
+    });
+
+    $.dispatch("increment", 5);
+    stop();
+    $.dispatch("increment");
+
+    expect(dispatches).toEqual([
+      { id: 1, event: "increment", data: 5, parent: undefined, cascade: 1 },
+      {
+        id: 2,
+        event: "$.counter",
+        data: { path: "$.counter", kind: "changed", oldValue: 1, newValue: 2 },
+        parent: 1,
+        cascade: 1,
+      },
+    ]);
+    expect(commits).toEqual([
+      {
+        dispatch: 1,
+        event: "increment",
+        state: { counter: 2 },
+        changes: [
+          { path: "$.counter", kind: "changed", oldValue: 1, newValue: 2 },
+        ],
+      },
+    ]);
+    expect(dispatched).toEqual(["$.counter", "increment"]);
+  });
+
+  it("returns all subscription names", () => {
+    const $ = ShapeX({ counter: 1 });
+
+    $.subscribe("event1", (state) => ({ state }));
+    $.subscribe("event2", (state) => ({ state }));
+
+    const subs = $.subscriptions();
+
+    expect(subs).toContain("event1");
+    expect(subs).toContain("event2");
+    expect(subs).toHaveLength(2);
+  });
+
+  it("returns subscription count for specific event", () => {
+    const $ = ShapeX({ counter: 1 });
+
+    $.subscribe("event1", (state) => ({ state }));
+    $.subscribe("event1", (state) => ({ state }));
+    $.subscribe("event2", (state) => ({ state }));
+
+    expect($.subscriptionCount("event1")).toBe(2);
+    expect($.subscriptionCount("event2")).toBe(1);
+  });
+
+  it("returns updated state", () => {
+    const $ = ShapeX({ counter: 1 });
+
+    $.subscribe("event1", (state) => ({
+      state: { counter: state.counter + 1 },
     }));
 
     $.dispatch("event1");
@@ -590,3 +2992,129 @@ describe("utility methods", () => {
     });
   });
 });
+
+describe("typed events", () => {
+  type AppState = {
+    counter: number;
+    nested: {
+      value: string;
+    };
+  };
+
+  type AppEvents = {
+    "counter++": undefined;
+    "counter-increase": number;
+    "set-value": { value: string };
+  };
+
+  it("dispatches events from the event map", () => {
+    const $ = ShapeX<AppState, AppEvents>({
+      counter: 1,
+      nested: { value: "test" },
+    });
+
+    $.subscribe("counter-increase", (state, increase) => ({
+      state: { ...state, counter: state.counter + increase },
+    }));
+
+    $.subscribe("counter++", (state) => ({
+      state,
+      dispatch: { to: "counter-increase", with: 1 },
+    }));
+
+    $.dispatch("counter++");
+    $.dispatch("counter-increase", 2);
+
+    expect($.state().counter).toBe(4);
+  });
+
+  it("dispatches falsy data from responses", () => {
+    const $ = ShapeX<AppState, AppEvents>({
+      counter: 1,
+      nested: { value: "test" },
+    });
+
+    $.subscribe("counter-increase", (state, increase) => ({
+      state: { ...state, counter: increase },
+    }));
+    $.subscribe("set-value", (state, data) => ({
+      state: { ...state, nested: data },
+      dispatch: { to: "counter-increase", with: 0 },
+    }));
+
+    $.dispatch("set-value", { value: "" });
+
+    expect($.state()).toEqual({ counter: 0, nested: { value: "" } });
+  });
+
+  it("subscribes to state paths of the state type", () => {
+    const $ = ShapeX<AppState, AppEvents>({
+      counter: 1,
+      nested: { value: "test" },
+    });
+    const cb = vi.fn();
+
+    $.subscribe("$.nested.value", cb);
+    $.subscribe("set-value", (state, data) => ({
+      state: { ...state, nested: { value: data.value } },
+    }));
+
+    $.dispatch("set-value", { value: "new value" });
+
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+
+  it("types the change state path subscriptions are called with", () => {
+    const $ = ShapeX<AppState, AppEvents, { double: number }>({
+      counter: 1,
+      nested: { value: "test" },
+    });
+
+    $.subscribe("$.nested.value", (_state, change) => {
+      expectTypeOf(change).toEqualTypeOf<StateChange<string>>();
+    });
+
+    $.subscribe("$.nested", (_state, change) => {
+      expectTypeOf(change?.newValue).toEqualTypeOf<
+        { value: string } | undefined
+      >();
+    });
+
+    $.subscribe("$.double", (_state, change) => {
+      expectTypeOf(change?.oldValue).toEqualTypeOf<number | undefined>();
+    });
+  });
+
+  it("rejects unknown events, state paths and mismatched data", () => {
+    const $ = ShapeX<AppState, AppEvents>({
+      counter: 1,
+      nested: { value: "test" },
+    });
+
+    // @ts-expect-error unknown event
+    $.dispatch("counter+");
+    // @ts-expect-error wrong data type
+    $.dispatch("counter-increase", "1");
+    // @ts-expect-error missing data
+    $.dispatch("set-value");
+    // @ts-expect-error unknown state path
+    $.subscribe("$.nested.missing", (state) => ({ state }));
+
+    $.subscribe("counter++", (state) => ({
+      state,
+      // @ts-expect-error wrong dispatch data type
+      dispatch: { to: "counter-increase", with: "1" },
+    }));
+
+    $.subscribe("counter++", (state) => ({
+      state,
+      // @ts-expect-error unknown dispatched event
+      dispatch: [{ to: "counter--" }],
+    }));
+
+    expectTypeOf($.subscribe<undefined, undefined, "set-value">)
+      .parameter(1)
+      .parameter(1)
+      .toEqualTypeOf<{ value: string }>();
+  });
+});
@@ -1,380 +1,2985 @@
+import { getPath, removePath, setPath } from "./paths.ts";
+import {
+  diffPatches,
+  diffState,
+  within as isWithin,
+  type DiffFilter,
+} from "./diff.ts";
+import { isPattern, patternTrie } from "./patterns.ts";
+
+/**
+ * Maps event names to the type of data they are dispatched with.
+ * Events dispatched without data should map to `undefined`.
+ */
+export type EventMap = Record<string, unknown>;
+
+/**
+ * The event map used when none is given, which allows any event
+ * name with any data.
+ */
+export type AnyEventMap = Record<string, any>;
+
+/**
+ * Whether an event map names its events, as opposed to allowing any.
+ */
+type IsTypedEventMap<E extends EventMap> = string extends keyof E
+  ? false
+  : true;
+
+/**
+ * Decrements a recursion depth, used to keep path types finite.
+ */
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+/**
+ * All dot-separated key paths of T, e.g. `a | a.b | a.b.c`.
+ */
+type KeyPaths<T, D extends number = 8> = [D] extends [never]
+  ? never
+  : T extends (...args: any[]) => unknown
+    ? never
+    : T extends readonly (infer U)[]
+      ? `${number}` | `${number}.${KeyPaths<NonNullable<U>, PrevDepth[D]>}`
+      : T extends object
+        ? {
+            [K in keyof T & string]-?:
+              K | `${K}.${KeyPaths<NonNullable<T[K]>, PrevDepth[D]>}`;
+          }[keyof T & string]
+        : never;
+
+/**
+ * A state change listener path of T, e.g. `$.counter`.
+ */
+export type StatePath<T> = `$.${KeyPaths<T>}`;
+
+/**
+ * The type of the value at a dot-separated key path of T.
+ */
+type PathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T
+    ? PathValue<NonNullable<T[K]>, Rest>
+    : T extends readonly (infer U)[]
+      ? PathValue<NonNullable<U>, Rest>
+      : unknown
+  : P extends keyof T
+    ? T[P]
+    : T extends readonly (infer U)[]
+      ? U
+      : unknown;
+
+/**
+ * A change of the value at a path of state or of a derived node, which
+ * is the data that the path's subscriptions are called with.
+ */
+export type StateChange<V = unknown> = {
+  path: string;
+  kind: "added" | "removed" | "changed";
+  oldValue: V | undefined;
+  newValue: V | undefined;
+};
+
+/**
+ * The data of the built-in `shapex/error` event, dispatched when a
+ * subscription callback, interceptor or effect fails.
+ */
+export type ErrorEventData = {
+  /**
+   * The name of the event whose handling failed.
+   */
+  event: string;
+  /**
+   * The data that event was dispatched with.
+   */
+  data: unknown;
+  error: unknown;
+};
+
+/**
+ * A schema implementing the vendor-neutral Standard Schema interface
+ * (https://standardschema.dev), as Zod, Valibot and ArkType schemas do.
+ */
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+};
+
+/**
+ * The result of validating a value against a Standard Schema.
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * Something wrong with a value validated against a Standard Schema.
+ */
+export type StandardSchemaIssue = {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+};
+
+/**
+ * The type of value a Standard Schema validates into.
+ */
+export type InferSchemaOutput<S extends StandardSchemaV1> = NonNullable<
+  S["~standard"]["types"]
+>["output"];
+
+/**
+ * An event map inferred from the schemas of its events, e.g.
+ * `InferEventMap<{ "user/login": typeof loginSchema }>`.
+ */
+export type InferEventMap<S extends Record<string, StandardSchemaV1>> = {
+  [K in keyof S]: InferSchemaOutput<S[K]>;
+};
+
+/**
+ * The data of the built-in `shapex/validation-error` event, dispatched
+ * when an event's data doesn't pass the event's schema.
+ */
+export type ValidationErrorEventData = {
+  /**
+   * The name of the event whose data is invalid.
+   */
+  event: string;
+  /**
+   * The data that event was dispatched with.
+   */
+  data: unknown;
+  issues: ReadonlyArray<StandardSchemaIssue>;
+};
+
+/**
+ * The data of the `shapex/hydrated` event, dispatched once persisted
+ * state has been restored.
+ */
+export type HydratedEventData = {
+  /**
+   * Whether there was persisted state to restore.
+   */
+  restored: boolean;
+  /**
+   * The version the persisted state was saved with, before migrating.
+   */
+  version: number | undefined;
+};
+
+/**
+ * The events ShapeX dispatches by itself.
+ */
+export type BuiltinEventMap = {
+  "shapex/error": ErrorEventData;
+  "shapex/hydrated": HydratedEventData;
+  "shapex/validation-error": ValidationErrorEventData;
+};
+
+/**
+ * An event map along with the built-in events, when it is typed.
+ */
+type WithBuiltinEvents<E extends EventMap> =
+  IsTypedEventMap<E> extends true ? E & BuiltinEventMap : E;
+
+/**
+ * Options for creating a ShapeX instance.
+ */
+export type ShapeXOptions = {
+  /**
+   * Called with the details of every failed subscription callback,
+   * interceptor or effect.
+   */
+  onError?: (error: ErrorEventData) => void;
+  /**
+   * Restore the state from before a dispatch once it has settled, if
+   * anything it set in motion failed.
+   */
+  rollbackOnError?: boolean;
+  /**
+   * Which paths to look for when state changes. `"full"`, the default,
+   * looks for every changed path, while `"subscribed"` only looks for
+   * the paths that are subscribed to, or that derived nodes depend on.
+   */
+  diff?: "full" | "subscribed";
+  /**
+   * Called with every change of a state update, before the
+   * subscriptions of the changed paths are called.
+   */
+  onStateChange?: (changes: StateChange[]) => void;
+  /**
+   * Batch the state updates of every dispatch along with everything it
+   * synchronously set in motion, as with `batch()`.
+   */
+  batchCascades?: boolean;
+};
+
+/**
+ * Maps the names of derived nodes to the type of their values.
+ */
+export type DerivedMap = object;
+
+/**
+ * A listener path of a derived node, e.g. `$.cartTotal`.
+ */
+export type DerivedPath<V extends DerivedMap> = `$.${keyof V & string}`;
+
+/**
+ * The names of derived nodes. Without a derived map, any string is
+ * accepted.
+ */
+type DerivedName<V extends DerivedMap> = [keyof V] extends [never]
+  ? string
+  : keyof V & string;
+
+/**
+ * The value of the derived node with the given name.
+ */
+type DerivedValue<V extends DerivedMap, K> = K extends keyof V ? V[K] : any;
+
+/**
+ * The names of the events in an event map.
+ */
+export type EventName<E extends EventMap> = keyof E & string;
+
+/**
+ * A listener pattern, where `*` matches a single segment of an event
+ * name or path, and `**` any number of them.
+ */
+export type ListenerPattern = `${string}*${string}`;
+
+/**
+ * A path of state or of a derived node.
+ * Without a typed event map, any string is accepted.
+ */
+export type StateListener<T, E extends EventMap, V extends DerivedMap = {}> =
+  IsTypedEventMap<E> extends true ? StatePath<T> | DerivedPath<V> : string;
+
+/**
+ * Anything that can be subscribed to: an event name, a state path,
+ * the path of a derived node, or a pattern of any of these. Without a
+ * typed event map, any string is accepted.
+ */
+export type Listener<T, E extends EventMap, V extends DerivedMap = {}> =
+  IsTypedEventMap<E> extends true
+    ? EventName<WithBuiltinEvents<E>> | StateListener<T, E, V> | ListenerPattern
+    : string;
+
+/**
+ * The data a subscription to the given listener is called with: an
+ * event's data, or the change of a path of state or of a derived node.
+ */
+type ListenerData<T, E extends EventMap, V extends DerivedMap, K> =
+  K extends EventName<E>
+    ? E[K]
+    : K extends ListenerPattern
+      ? unknown
+      : K extends `$.${infer P}`
+        ? StateChange<P extends keyof V ? V[P] : PathValue<T, P>>
+        : undefined;
+
+/**
+ * An event as received by `waitFor` and `events`, along with its data.
+ */
+export type ReceivedEvent<D = unknown> = {
+  event: string;
+  data: D;
+};
+
+/**
+ * Options for waiting for an event.
+ */
+export type WaitForOptions<D = unknown> = {
+  /**
+   * Reject if the event isn't dispatched within this many
+   * milliseconds.
+   */
+  timeout?: number;
+  /**
+   * Keep waiting unless the event passes the filter.
+   */
+  filter?: (event: ReceivedEvent<D>) => boolean;
+  /**
+   * Stop waiting, rejecting with the signal's reason, once aborted.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * The value selected by a path of state or of a derived node.
+ */
+type SelectedValue<T, V extends DerivedMap, K> = K extends `$.${infer P}`
+  ? P extends keyof V
+    ? V[P]
+    : PathValue<T, P>
+  : unknown;
+
+/**
+ * Gets notified of the values of an observable, either as a function or
+ * as an object with a `next` method.
+ */
+export type SelectorObserver<S> =
+  ((value: S) => void) | { next?: (value: S) => void };
+
+/**
+ * A minimal observable of the selected value, as RxJS and other
+ * libraries expect it.
+ */
+export type SelectorObservable<S> = {
+  subscribe: (observer: SelectorObserver<S>) => { unsubscribe: () => void };
+  "@@observable": () => SelectorObservable<S>;
+};
+
+/**
+ * A store of a value selected from state, which fits React's
+ * `useSyncExternalStore`, the Svelte store contract and observables.
+ */
+export type SelectorStore<S> = {
+  /**
+   * The selected value, which stays the same for as long as it is
+   * equal.
+   */
+  getSnapshot: () => S;
+  /**
+   * Call the listener with the selected value right away, and again
+   * whenever it changes.
+   */
+  subscribe: (listener: (value: S) => void) => () => void;
+  /**
+   * The store as an observable. It is also available under
+   * `Symbol.observable`, where that is polyfilled.
+   */
+  "@@observable": () => SelectorObservable<S>;
+};
+
+/**
+ * Makes an object available as an observable, under `@@observable`
+ * and `Symbol.observable`, where that is polyfilled.
+ *
+ * @param {R} target
+ * @param {() => SelectorObservable<S>} observable
+ * @returns {R}
+ */
+const withObservable = <R extends object, S>(
+  target: R,
+  observable: () => SelectorObservable<S>,
+): R & { "@@observable": () => SelectorObservable<S> } => {
+  const key = (Symbol as { observable?: symbol }).observable;
+
+  return Object.assign(
+    target,
+    { "@@observable": observable },
+    key ? { [key]: observable } : {},
+  );
+};
+
+/**
+ * Options for iterating over events.
+ */
+export type EventsOptions = {
+  /**
+   * End the iteration once aborted.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * The data arguments of dispatching the given event, optional when
+ * the event's data allows `undefined`.
+ */
+type DispatchData<
+  E extends EventMap,
+  K extends EventName<E>,
+> = undefined extends E[K] ? [withData?: E[K]] : [withData: E[K]];
+
+/**
+ * Options for dispatching an event later rather than right away. Only
+ * one of `after`, `debounce` and `throttle` is used, in that order of
+ * precedence from last to first.
+ */
+export type DispatchSchedule = {
+  /**
+   * Dispatch the event after this many milliseconds.
+   */
+  after?: number;
+  /**
+   * Dispatch the event once this many milliseconds have passed without
+   * it being dispatched again under the same key, with the latest data.
+   */
+  debounce?: number;
+  /**
+   * Dispatch the event right away, and then at most once every this
+   * many milliseconds under the same key, with the latest data.
+   */
+  throttle?: number;
+  /**
+   * Identifies the scheduled dispatch, e.g. to cancel it. Scheduling
+   * another dispatch under the same key replaces it. Debounced and
+   * throttled dispatches default to the event's name.
+   */
+  key?: string;
+};
+
+/**
+ * A dispatch scheduled for later.
+ */
+export type ScheduledDispatch = {
+  key: string | undefined;
+  event: string;
+  data: unknown;
+  /**
+   * When the event is due to be dispatched, in milliseconds since the
+   * epoch.
+   */
+  at: number;
+};
+
 /**
  * Dispatches an event with a given name and passes on
- * given arguments to it.
+ * given arguments to it. With a typed event map, only the events
+ * in the map can be dispatched, with their respective data.
+ */
+export type SubscriptionResponseDispatch<
+  W extends unknown = undefined,
+  E extends EventMap = AnyEventMap,
+> =
+  IsTypedEventMap<E> extends true
+    ? {
+        [K in EventName<E>]: undefined extends E[K]
+          ? { to: K; with?: E[K] } & DispatchSchedule
+          : { to: K; with: E[K] } & DispatchSchedule;
+      }[EventName<E>]
+    : {
+        to: string;
+        with?: W;
+      } & DispatchSchedule;
+
+/**
+ * A response of the subscription callback. Should return new state
+ * if you want to update state, and/or optionally also any events you
+ * might want to dispatch, and any effects you want to run, keyed by
+ * the name of a registered effect handler.
+ */
+export type SubscriptionResponse<
+  T,
+  D extends unknown = undefined,
+  E extends EventMap = AnyEventMap,
+> = {
+  state?: T;
+  dispatch?:
+    SubscriptionResponseDispatch<D, E> | SubscriptionResponseDispatch<D, E>[];
+  effects?: Record<string, unknown>;
+  /**
+   * Stop calling the subscriptions of the event after this one.
+   */
+  stop?: boolean;
+};
+
+const isSubscriptionResponseList = <W extends unknown = undefined>(
+  dispatch: SubscriptionResponseDispatch<W> | SubscriptionResponseDispatch<W>[],
+): dispatch is SubscriptionResponseDispatch<W>[] => Array.isArray(dispatch);
+
+/**
+ * The context a subscription callback is called with: the name of the
+ * event being handled, and the values of the coeffects that the
+ * subscription declared.
+ */
+export type EventContext = {
+  event: string;
+  coeffects: Record<string, any>;
+  /**
+   * Aborted once the call is superseded by a later one, as with the
+   * `latest` concurrency, so that async work can stop, and its
+   * response is then discarded.
+   */
+  signal: AbortSignal;
+};
+
+/**
+ * A callback passed to subcriptions, called when the event
+ * that the subscription is listening to is called. With a typed event
+ * map its data is exactly the event's data, otherwise it may also be
+ * left out when dispatching.
+ */
+export type EventCallback<
+  T,
+  W extends unknown = undefined,
+  D extends unknown = undefined,
+  E extends EventMap = AnyEventMap,
+> = (
+  state: T,
+  data: IsTypedEventMap<E> extends true ? W : W | undefined,
+  context: EventContext,
+) =>
+  | SubscriptionResponse<T, D, E>
+  | Promise<SubscriptionResponse<T, D, E>>
+  | void
+  | Promise<void>;
+
+/**
+ * The callback of a subscription to the given listener. With a typed
+ * event map its data is the listener's data, otherwise it is up to the
+ * caller.
  */
-export type SubscriptionResponseDispatch<W extends unknown = undefined> = {
-  to: string;
-  with?: W;
+type ListenerCallback<
+  T,
+  E extends EventMap,
+  V extends DerivedMap,
+  K,
+  W,
+  D,
+> = EventCallback<
+  T,
+  IsTypedEventMap<E> extends true
+    ? ListenerData<T, WithBuiltinEvents<E>, V, K>
+    : W,
+  D,
+  E
+>;
+
+/**
+ * What an effect handler gets besides the effect's value: the state
+ * after the subscription's response was committed, and a way to
+ * dispatch follow-up events.
+ */
+export type EffectContext<T, E extends EventMap = AnyEventMap> = {
+  state: T;
+  dispatch: ShapeXInstance<T, E>["dispatch"];
+};
+
+/**
+ * Runs a side effect declared in the `effects` of a subscription
+ * response.
+ */
+export type EffectHandler<T, V = any, E extends EventMap = AnyEventMap> = (
+  value: V,
+  context: EffectContext<T, E>,
+) => void | Promise<void>;
+
+/**
+ * The context passed through an interceptor chain. Interceptors may
+ * rewrite the event's `data`, the `state` and `coeffects` given to the
+ * callback, or the callback's `response`.
+ */
+export type InterceptorContext<T = any> = {
+  event: string;
+  data: unknown;
+  state: T;
+  coeffects: Record<string, any>;
+  /**
+   * The callback's response. Setting it in a `before` hook skips the
+   * callback, along with the `before` hooks of later interceptors.
+   */
+  response?: SubscriptionResponse<T, unknown> | void;
+  /**
+   * Values interceptors keep between their `before` and `after` hooks.
+   */
+  stack: unknown[];
+  /**
+   * Reads the state as it is now, as focused by the interceptors so
+   * far. Async callbacks respond once state may have changed since they
+   * were called, so responses are put back into it rather than into the
+   * state the callback was called with.
+   */
+  current: () => T;
+};
+
+/**
+ * Wraps subscription callbacks. `before` hooks run in order before the
+ * callback, and `after` hooks in reverse order once it has responded,
+ * each either changing the context in place or returning a new one.
+ */
+export type Interceptor<T = any> = {
+  name?: string;
+  before?: (context: InterceptorContext<T>) => InterceptorContext<T> | void;
+  after?: (context: InterceptorContext<T>) => InterceptorContext<T> | void;
 };
 
-/**
- * A response of the subscription callback. Should return new state
- * if you want to update state, and/or optionally also any events you
- * might want to dispatch.
- */
-export type SubscriptionResponse<T, D extends unknown = undefined> = {
-  state?: T;
-  dispatch?:
-    | SubscriptionResponseDispatch<D>
-    | SubscriptionResponseDispatch<D>[];
-};
+/**
+ * Provides the value of a coeffect when a subscription that declared
+ * it is called.
+ */
+export type CoeffectProvider<V = unknown> = () => V;
+
+/**
+ * How an async subscription handles being called while an earlier call
+ * is still pending: `every` lets the calls run side by side, `latest`
+ * aborts the earlier calls, `queue` calls it once the earlier calls
+ * have responded, and `drop` skips it.
+ */
+export type Concurrency = "every" | "latest" | "queue" | "drop";
+
+/**
+ * Options for subscribing to an event.
+ */
+export type SubscribeOptions = {
+  /**
+   * Names of the registered coeffects to inject into the callback's
+   * context.
+   */
+  coeffects?: string[];
+  /**
+   * Interceptors wrapping the callback, run after the instance's own.
+   */
+  interceptors?: Interceptor[];
+  /**
+   * Subscriptions of a higher priority are called first, and those of
+   * the same priority in the order they were subscribed. Defaults to 0.
+   */
+  priority?: number;
+  /**
+   * How to handle being called while an async call is still pending.
+   * Defaults to `every`.
+   */
+  concurrency?: Concurrency;
+};
+
+type DerivedNode = {
+  path: string;
+  dependencies: string[];
+  compute: (...values: any[]) => unknown;
+  value: unknown;
+};
+
+/**
+ * A dispatch scheduled for later, or a throttling window.
+ */
+type Scheduled = ScheduledDispatch & {
+  timer: ReturnType<typeof setTimeout>;
+  /**
+   * Whether it is a throttling window, holding back dispatches under
+   * its key until it closes.
+   */
+  throttled: boolean;
+  /**
+   * Whether there is an event to dispatch once it is due.
+   */
+  waiting: boolean;
+  /**
+   * The dispatch whose handling scheduled the event, which it is
+   * attributed to once dispatched.
+   */
+  parent: DispatchRecord | undefined;
+};
+
+/**
+ * A dispatched event along with everything it set in motion: the events
+ * dispatched by its subscriptions' responses and effects, and the state
+ * change notifications of its state updates.
+ */
+type Cascade = {
+  id: number;
+  awaited: boolean;
+  pending: Set<Promise<void>>;
+  errors: unknown[];
+  snapshot: unknown;
+  /**
+   * The topmost paths its own state updates changed, which are restored
+   * from the snapshot when rolling back.
+   */
+  changed: Set<string>;
+};
+
+/**
+ * A dispatch as seen by observers.
+ */
+export type DispatchRecord = {
+  /**
+   * Identifies the dispatch, counting up from 1.
+   */
+  id: number;
+  event: string;
+  data: unknown;
+  /**
+   * The id of the dispatch whose handling caused this one, if any.
+   */
+  parent: number | undefined;
+  /**
+   * Identifies the cascade the dispatch is part of.
+   */
+  cascade: number;
+};
+
+/**
+ * A state update as seen by observers.
+ */
+export type CommitRecord<T> = {
+  /**
+   * The id of the dispatch whose handling updated state, if any.
+   */
+  dispatch: number | undefined;
+  /**
+   * The name of the event whose handling updated state, if any.
+   */
+  event: string | undefined;
+  state: T;
+  /**
+   * The changes, narrowed down as per the `diff` option.
+   */
+  changes: StateChange[];
+};
+
+/**
+ * The coeffect values injected into a subscription callback, as seen
+ * by observers.
+ */
+export type InjectRecord = {
+  /**
+   * The id of the dispatch whose subscription the values were injected
+   * into.
+   */
+  dispatch: number;
+  coeffects: Record<string, unknown>;
+};
+
+/**
+ * Gets notified of every dispatch and state update of an instance.
+ */
+export type Observer<T> = {
+  /**
+   * Called when an event is dispatched, before any of its
+   * subscriptions are called.
+   */
+  dispatch?: (record: DispatchRecord) => void;
+  /**
+   * Called once every subscription of an event has been called, and
+   * their sync responses handled.
+   */
+  dispatched?: (record: DispatchRecord) => void;
+  commit?: (record: CommitRecord<T>) => void;
+  /**
+   * Called when coeffect values are injected into a subscription
+   * callback, before its interceptors run.
+   */
+  inject?: (record: InjectRecord) => void;
+};
+
+/**
+ * The event whose handling a failure is attributed to.
+ */
+type ErrorSource = {
+  event: string;
+  data: unknown;
+};
+
+type Subscription<
+  T,
+  W extends unknown = undefined,
+  D extends unknown = undefined,
+> = {
+  id: number;
+  listener: string;
+  callback: EventCallback<T, W, D>;
+  once: boolean;
+  coeffects: string[];
+  interceptors: Interceptor<T>[];
+  priority: number;
+  concurrency: Concurrency;
+  /**
+   * The latest pending async call, resolved once it has responded.
+   */
+  running: Promise<boolean> | undefined;
+  /**
+   * Abort the calls in flight, including queued ones.
+   */
+  controllers: Set<AbortController>;
+};
+
+/**
+ * A handle returned when subscribing. Calling it removes the
+ * subscription, and its `id` can also be passed to `unsubscribe`.
+ */
+export type SubscriptionHandle = {
+  (): void;
+  id: number;
+};
+
+/**
+ * An instance of the ShapeX object.
+ */
+export type ShapeXInstance<
+  T,
+  E extends EventMap = AnyEventMap,
+  V extends DerivedMap = {},
+> = {
+  /**
+   * Subcribe to an event.
+   */
+  subscribe: <
+    W extends unknown = undefined,
+    D extends unknown = undefined,
+    K extends Listener<T, E, V> = Listener<T, E, V>,
+  >(
+    listener: K,
+    callback: ListenerCallback<T, E, V, K, W, D>,
+    options?: SubscribeOptions,
+  ) => SubscriptionHandle;
+  /**
+   * Subscribe to an event once.
+   */
+  subscribeOnce: <
+    W extends unknown = undefined,
+    D extends unknown = undefined,
+    K extends Listener<T, E, V> = Listener<T, E, V>,
+  >(
+    listener: K,
+    callback: ListenerCallback<T, E, V, K, W, D>,
+    options?: SubscribeOptions,
+  ) => SubscriptionHandle;
+
+  /**
+   * Wait for an event, or a state change, resolving with the first one
+   * that passes the filter, if any.
+   */
+  waitFor: <K extends Listener<T, E, V>>(
+    listener: K,
+    options?: WaitForOptions<ListenerData<T, WithBuiltinEvents<E>, V, K>>,
+  ) => Promise<ReceivedEvent<ListenerData<T, WithBuiltinEvents<E>, V, K>>>;
+
+  /**
+   * Iterate over the events, or state changes, of a listener as they
+   * are dispatched.
+   */
+  events: <K extends Listener<T, E, V>>(
+    listener: K,
+    options?: EventsOptions,
+  ) => AsyncIterableIterator<
+    ReceivedEvent<ListenerData<T, WithBuiltinEvents<E>, V, K>>
+  >;
+
+  /**
+   * Unsubscribe from an event. Given an event name, removes all of its
+   * subscriptions, and given a subscription id or handle, removes only
+   * that subscription.
+   */
+  unsubscribe: (listener: string | number | SubscriptionHandle) => void;
+
+  /**
+   * Remove all subscriptions.
+   */
+  unsubscribeAll: () => void;
+
+  /**
+   * Get the number of subscriptions for an event.
+   */
+  subscriptionCount: (to: string) => number;
+
+  /**
+   * Get the subscriptions for an event.
+   */
+  subscriptions: () => string[];
+
+  /**
+   * Dispatch an event.
+   */
+  dispatch: <K extends EventName<E>>(
+    to: K,
+    ...withData: DispatchData<E, K>
+  ) => void;
+
+  /**
+   * Dispatch an event, resolving with the state once the event and
+   * everything it set in motion has settled.
+   */
+  dispatchAsync: <K extends EventName<E>>(
+    to: K,
+    ...withData: DispatchData<E, K>
+  ) => Promise<T>;
+
+  /**
+   * Wait for all in-flight work of every dispatch to settle.
+   */
+  settled: () => Promise<void>;
+
+  /**
+   * Get the dispatches scheduled for later, in the order they are due.
+   */
+  scheduled: () => ScheduledDispatch[];
+
+  /**
+   * Cancel the dispatch scheduled under the given key.
+   */
+  cancel: (key: string) => void;
+
+  /**
+   * Cancel every scheduled dispatch.
+   */
+  cancelAll: () => void;
+
+  /**
+   * Register a handler for an effect that subscriptions can return.
+   */
+  registerEffect: <V = any>(
+    name: string,
+    handler: EffectHandler<T, V, E>,
+  ) => void;
+
+  /**
+   * Register a provider for a coeffect that subscriptions can declare.
+   */
+  registerCoeffect: <V>(name: string, provider: CoeffectProvider<V>) => void;
+
+  /**
+   * Add an interceptor that wraps every subscription callback.
+   */
+  intercept: (interceptor: Interceptor<T>) => () => void;
+
+  /**
+   * Derive a memoized value from paths of state or other derived nodes.
+   */
+  derive: <K extends DerivedName<V>>(
+    name: K,
+    dependencies: StateListener<T, E, V>[],
+    compute: (...values: any[]) => DerivedValue<V, K>,
+  ) => void;
+
+  /**
+   * Get the value of a derived node.
+   */
+  derived: <K extends DerivedName<V>>(name: K) => DerivedValue<V, K>;
+
+  /**
+   * Select a value from state, or the value at a path of state or of a
+   * derived node, as a store that UI frameworks can subscribe to.
+   */
+  select: {
+    <S>(
+      selector: (state: T) => S,
+      equalityFn?: (a: S, b: S) => boolean,
+    ): SelectorStore<S>;
+    <K extends StateListener<T, E, V>>(
+      path: K,
+      equalityFn?: (
+        a: SelectedValue<T, V, K>,
+        b: SelectedValue<T, V, K>,
+      ) => boolean,
+    ): SelectorStore<SelectedValue<T, V, K>>;
+  };
+
+  /**
+   * Attach a schema to an event, validating its data before any of its
+   * subscriptions are called.
+   */
+  defineEvent: <K extends EventName<E>>(
+    name: K,
+    schema: StandardSchemaV1<unknown, E[K]>,
+  ) => void;
+
+  /**
+   * Run a function as a batch, firing the state listeners of the paths
+   * it changed once it returns, and restoring state if it throws.
+   */
+  batch: <R>(fn: () => R) => R;
+
+  /**
+   * Register a module, with its own state at `$.<name>` and its own
+   * events prefixed with `<name>/`.
+   */
+  module: <S extends object, M extends EventMap = AnyEventMap>(
+    name: string,
+    initialState: S,
+  ) => ShapeXModule<S, M>;
+
+  /**
+   * Get the current state.
+   */
+  state: () => T;
+
+  /**
+   * Replace the state, notifying the listeners of every changed path.
+   */
+  setState: (state: T) => void;
+
+  /**
+   * Observe every dispatch and state update.
+   */
+  observe: (observer: Observer<T>) => () => void;
+};
+
+/**
+ * An interceptor that focuses a callback on the state at the given
+ * path. The callback gets, and may return, only that part of state,
+ * which is then put back in place in the whole state as it is when the
+ * callback responds.
+ *
+ * @param {string} statePath The state path to focus on, e.g. `$.cart`.
+ * @returns {Interceptor} The interceptor.
+ */
+export const path = (statePath: string): Interceptor => ({
+  name: `path(${statePath})`,
+  before: (context) => {
+    const current = context.current;
+
+    context.stack.push(current);
+    context.state = getPath(context.state, statePath);
+    context.current = () => getPath(current(), statePath);
+  },
+  after: (context) => {
+    const current = context.stack.pop() as () => unknown;
+    const state = current();
+    const response = context.response;
+    context.current = current;
+    context.state = state;
+
+    if (response && response.state !== undefined) {
+      context.response = {
+        ...response,
+        state: setPath(state, statePath, response.state),
+      };
+    }
+  },
+});
+
+/**
+ * An interceptor that logs each event, along with the state it was
+ * handled with and the response of the callback.
+ *
+ * @param {(...args: unknown[]) => void} log The logging function.
+ * @returns {Interceptor} The interceptor.
+ */
+export const debug = (
+  log: (...args: unknown[]) => void = console.log,
+): Interceptor => ({
+  name: "debug",
+  before: (context) => {
+    log(`[shapex] handling "${context.event}"`, {
+      data: context.data,
+      state: context.state,
+    });
+  },
+  after: (context) => {
+    log(`[shapex] handled "${context.event}"`, {
+      response: context.response,
+    });
+  },
+});
+
+/**
+ * An interceptor that skips the callback when the event's data does
+ * not pass the given predicate.
+ *
+ * @param {(data: unknown) => boolean} predicate Checks the event's data.
+ * @returns {Interceptor} The interceptor.
+ */
+export const validate = (predicate: (data: any) => boolean): Interceptor => ({
+  name: "validate",
+  before: (context) => {
+    if (!predicate(context.data)) {
+      context.response = undefined;
+    }
+  },
+});
+
+/**
+ * A module of an instance, as returned by `module()`. Its event names
+ * are prefixed with the module's name, its `$.` paths are relative to
+ * the module's state, and its callbacks get and return only the
+ * module's state. Names starting with `/` are left as they are, for
+ * events outside of the module.
+ */
+export type ShapeXModule<S, E extends EventMap = AnyEventMap> = {
+  /**
+   * The name of the module.
+   */
+  name: string;
+  subscribe: ShapeXInstance<S, E>["subscribe"];
+  subscribeOnce: ShapeXInstance<S, E>["subscribeOnce"];
+  /**
+   * Unsubscribe the module's subscriptions of an event, or a single
+   * subscription by its id or handle.
+   */
+  unsubscribe: (listener: string | number | SubscriptionHandle) => void;
+  /**
+   * Remove all of the module's subscriptions.
+   */
+  unsubscribeAll: () => void;
+  dispatch: ShapeXInstance<S, E>["dispatch"];
+  dispatchAsync: ShapeXInstance<S, E>["dispatchAsync"];
+  /**
+   * Get the module's state.
+   */
+  state: () => S;
+  /**
+   * Remove the module, along with its subscriptions, its scheduled
+   * dispatches and its state.
+   */
+  remove: () => void;
+};
+
+/**
+ * Orders subscriptions by priority, highest first, and those of the
+ * same priority in the order they were subscribed.
+ *
+ * @param {Pick<Subscription<unknown>, "id" | "priority">} a
+ * @param {Pick<Subscription<unknown>, "id" | "priority">} b
+ * @returns {number}
+ */
+const byPriority = (
+  a: Pick<Subscription<unknown>, "id" | "priority">,
+  b: Pick<Subscription<unknown>, "id" | "priority">,
+): number => {
+  return b.priority - a.priority || a.id - b.id;
+};
+
+/**
+ * A function that creates an EventX object.
+ *
+ * @param {T extends object} initialState The initial application state.
+ * @param {ShapeXOptions} options Options for the instance.
+ * @returns {ShapeXInstance<T, E, V>} The ShapeX object.
+ */
+export function ShapeX<
+  T extends object,
+  E extends EventMap = AnyEventMap,
+  V extends DerivedMap = {},
+>(initialState: T, options: ShapeXOptions = {}): ShapeXInstance<T, E, V> {
+  let _state = initialState;
+  const _subscriptions: Map<
+    string,
+    Array<Subscription<T, unknown, unknown>>
+  > = new Map();
+  const _subscriptionIndex: Map<
+    number,
+    Subscription<T, unknown, unknown>
+  > = new Map();
+  const _effects: Map<string, EffectHandler<T, any, E>> = new Map();
+  const _coeffects: Map<string, CoeffectProvider> = new Map();
+  const _schemas: Map<string, StandardSchemaV1> = new Map();
+  const _modules: Set<string> = new Set();
+  const _interceptors: Interceptor<T>[] = [];
+  const _patterns = patternTrie();
+  const _watched: Map<string, number> = new Map();
+  const _watchedAncestors: Map<string, number> = new Map();
+  const _derived: Map<string, DerivedNode> = new Map();
+  let _derivedOrder: DerivedNode[] = [];
+  const _inFlight: Set<Promise<void>> = new Set();
+  const _observers: Set<Observer<T>> = new Set();
+  const _stores: Set<() => void> = new Set();
+  const _scheduled: Set<Scheduled> = new Set();
+  let _cascade: Cascade | undefined;
+  let _parent: DispatchRecord | undefined;
+  let _batch: { snapshot: T } | undefined;
+  let subscriptionId = 0;
+  let cascadeId = 0;
+  let dispatchId = 0;
+
+  /**
+   * Adds a subscription to the given listener. The listener's list of
+   * subscriptions is replaced rather than mutated, so that a dispatch
+   * in progress keeps iterating over the list it started with.
+   *
+   * @param {string} listener
+   * @param {EventCallback<T, unknown, unknown>} callback
+   * @param {boolean} once
+   * @param {SubscribeOptions} options
+   * @returns {SubscriptionHandle}
+   */
+  const addSubscription = (
+    listener: string,
+    callback: EventCallback<T, unknown, unknown>,
+    once: boolean,
+    options: SubscribeOptions = {},
+  ): SubscriptionHandle => {
+    const subscription = {
+      id: ++subscriptionId,
+      listener,
+      callback,
+      once,
+      coeffects: options.coeffects ?? [],
+      interceptors: options.interceptors ?? [],
+      priority: options.priority ?? 0,
+      concurrency: options.concurrency ?? "every",
+      running: undefined,
+      controllers: new Set<AbortController>(),
+    };
+
+    if (!_subscriptions.has(listener)) {
+      if (isPattern(listener)) {
+        _patterns.add(listener);
+      } else {
+        watch(listener, 1);
+      }
+    }
+
+    _subscriptions.set(
+      listener,
+      [...(_subscriptions.get(listener) ?? []), subscription].sort(byPriority),
+    );
+    _subscriptionIndex.set(subscription.id, subscription);
+
+    const handle = (() => unsubscribe(subscription.id)) as SubscriptionHandle;
+    handle.id = subscription.id;
+
+    return handle;
+  };
+
+  /**
+   * Removes a single subscription by its id, and the listener itself
+   * once it has no subscriptions left. Its calls still in flight are
+   * aborted.
+   *
+   * @param {number} id
+   */
+  const removeSubscription = (id: number): void => {
+    const subscription = _subscriptionIndex.get(id);
+    if (!subscription) {
+      return;
+    }
+
+    _subscriptionIndex.delete(id);
+    abortAll(subscription);
+
+    const remaining = (_subscriptions.get(subscription.listener) ?? []).filter(
+      (x) => x.id !== id,
+    );
+
+    if (remaining.length > 0) {
+      _subscriptions.set(subscription.listener, remaining);
+    } else {
+      removeListener(subscription.listener);
+    }
+  };
+
+  /**
+   * Removes a listener along with all of its subscriptions, aborting
+   * their calls still in flight.
+   *
+   * @param {string} listener
+   */
+  const removeListener = (listener: string): void => {
+    for (const subscription of _subscriptions.get(listener) ?? []) {
+      _subscriptionIndex.delete(subscription.id);
+      abortAll(subscription);
+    }
+
+    if (_subscriptions.delete(listener)) {
+      if (isPattern(listener)) {
+        _patterns.remove(listener);
+      } else {
+        watch(listener, -1);
+      }
+    }
+  };
+
+  /**
+   * Counts a path in or out of the paths looked for when diffing state
+   * with the `"subscribed"` diff option, along with its ancestors.
+   *
+   * @param {string} path
+   * @param {number} count 1 to count the path in, -1 to count it out.
+   */
+  const watch = (path: string, count: number): void => {
+    if (!path.startsWith("$.")) {
+      return;
+    }
+
+    const update = (paths: Map<string, number>, path: string) => {
+      const total = (paths.get(path) ?? 0) + count;
+
+      if (total > 0) {
+        paths.set(path, total);
+      } else {
+        paths.delete(path);
+      }
+    };
+
+    update(_watched, path);
+
+    for (let i = path.indexOf(".", 2); i !== -1; i = path.indexOf(".", i + 1)) {
+      update(_watchedAncestors, path.slice(0, i));
+    }
+  };
+
+  /**
+   * Narrows state diffs down to the watched paths, their ancestors, and
+   * the paths matching a pattern.
+   */
+  const watchedPaths: DiffFilter = {
+    report: (path) => _watched.has(path) || _patterns.match(path).length > 0,
+    descend: (path) =>
+      path === "$" || _watchedAncestors.has(path) || _patterns.covers(path),
+  };
+
+  /**
+   * Subcribe to an event.
+   *
+   * @param {Listener<T, E, V>} listener
+   * @param {ListenerCallback<T, E, V, K, W, D>} callback
+   * @param {SubscribeOptions} options
+   * @returns {SubscriptionHandle}
+   */
+  const subscribe: ShapeXInstance<T, E, V>["subscribe"] = (
+    listener,
+    callback,
+    options,
+  ) => {
+    return addSubscription(
+      listener,
+      callback as unknown as EventCallback<T, unknown, unknown>,
+      false,
+      options,
+    );
+  };
+
+  /**
+   * Subcribe to an event, once.
+   *
+   * @param {Listener<T, E, V>} listener
+   * @param {ListenerCallback<T, E, V, K, W, D>} callback
+   * @param {SubscribeOptions} options
+   * @returns {SubscriptionHandle}
+   */
+  const subscribeOnce: ShapeXInstance<T, E, V>["subscribeOnce"] = (
+    listener,
+    callback,
+    options,
+  ) => {
+    return addSubscription(
+      listener,
+      callback as unknown as EventCallback<T, unknown, unknown>,
+      true,
+      options,
+    );
+  };
+
+  /**
+   * Waits for an event, or a state change, resolving with the first one
+   * that passes the filter, if any. Rejects once timed out or aborted,
+   * and unsubscribes either way.
+   *
+   * @param {Listener<T, E, V>} listener
+   * @param {WaitForOptions} options
+   * @returns {Promise<ReceivedEvent>}
+   */
+  const waitFor = (
+    listener: string,
+    options: WaitForOptions<any> = {},
+  ): Promise<ReceivedEvent<any>> => {
+    const { timeout, filter, signal } = options;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const done = (): void => {
+        handle();
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", abort);
+      };
+
+      const abort = (): void => {
+        done();
+        reject(signal?.reason);
+      };
+
+      const handle = addSubscription(
+        listener,
+        (_, data, { event }) => {
+          const received = { event, data };
+
+          if (!filter || filter(received)) {
+            done();
+            resolve(received);
+          }
+        },
+        false,
+      );
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          done();
+          reject(
+            new Error(
+              `Timed out waiting for "${listener}" after ${timeout} ms.`,
+            ),
+          );
+        }, timeout);
+      }
+
+      signal?.addEventListener("abort", abort);
+    });
+  };
+
+  /**
+   * Iterates over the events, or state changes, of a listener as they
+   * are dispatched, from the moment it is called. Events dispatched
+   * while the loop body runs are buffered. Unsubscribes once the loop
+   * ends or the signal is aborted, which ends the iteration.
+   *
+   * @param {Listener<T, E, V>} listener
+   * @param {EventsOptions} options
+   * @returns {AsyncIterableIterator<ReceivedEvent>}
+   */
+  const events = (
+    listener: string,
+    options: EventsOptions = {},
+  ): AsyncIterableIterator<ReceivedEvent<any>> => {
+    const { signal } = options;
+    const buffered: ReceivedEvent[] = [];
+    let waiting: ((result: IteratorResult<ReceivedEvent>) => void) | undefined;
+    let ended = false;
+
+    const handle = addSubscription(
+      listener,
+      (_, data, { event }) => {
+        if (waiting) {
+          waiting({ value: { event, data }, done: false });
+          waiting = undefined;
+        } else {
+          buffered.push({ event, data });
+        }
+      },
+      false,
+    );
+
+    const end = (): void => {
+      if (ended) {
+        return;
+      }
+
+      ended = true;
+      buffered.length = 0;
+      handle();
+      signal?.removeEventListener("abort", end);
+      waiting?.({ value: undefined, done: true });
+      waiting = undefined;
+    };
+
+    if (signal?.aborted) {
+      end();
+    }
+
+    signal?.addEventListener("abort", end);
+
+    const iterator: AsyncIterableIterator<ReceivedEvent> = {
+      next: () => {
+        const next = buffered.shift();
+
+        if (next) {
+          return Promise.resolve({ value: next, done: false });
+        }
+
+        if (ended) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+
+        return new Promise((resolve) => {
+          waiting = resolve;
+        });
+      },
+      return: () => {
+        end();
+
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      [Symbol.asyncIterator]: () => iterator,
+    };
+
+    return iterator;
+  };
+
+  /**
+   * Unsubscribes either every subscription of an event, or a single
+   * subscription by its id or handle.
+   *
+   * @param {string | number | SubscriptionHandle} listener
+   */
+  const unsubscribe = (
+    listener: string | number | SubscriptionHandle,
+  ): void => {
+    if (typeof listener === "function") {
+      removeSubscription(listener.id);
+      return;
+    }
+
+    if (typeof listener === "number") {
+      removeSubscription(listener);
+      return;
+    }
+
+    removeListener(listener);
+  };
+
+  /**
+   * Removes all subscriptions.
+   */
+  const unsubscribeAll = (): void => {
+    for (const listener of Array.from(_subscriptions.keys())) {
+      removeListener(listener);
+    }
+  };
+
+  /**
+   * Diffs two states, narrowed down as per the `diff` option.
+   *
+   * @param {T} oldState
+   * @param {T} newState
+   * @returns {StateChange[]}
+   */
+  const diff = (oldState: T, newState: T): StateChange[] => {
+    return diffState(
+      oldState,
+      newState,
+      options.diff === "subscribed" ? watchedPaths : undefined,
+    );
+  };
+
+  /**
+   * Replaces the state, and fires a dispatch for the state listeners of
+   * every changed path, including those of derived nodes, with the
+   * change as data. Within a batch, the state listeners and derived
+   * nodes are left for the end of the batch.
+   *
+   * @param {T} state The new state.
+   */
+  const commit = (state: T): void => {
+    if (options.rollbackOnError && _cascade) {
+      for (const patch of diffPatches(_state, state, ["$"])) {
+        _cascade.changed.add(patch.path);
+      }
+    }
+
+    const changes = diff(_state, state);
+    _state = state;
+
+    if (!_batch) {
+      changes.push(...updateDerived(changes.map((change) => change.path)));
+    }
+
+    for (const observer of _observers) {
+      observer.commit?.({
+        dispatch: _parent?.id,
+        event: _parent?.event,
+        state,
+        changes,
+      });
+    }
+
+    if (!_batch) {
+      notify(changes);
+    }
+  };
+
+  /**
+   * Fires a dispatch for the state listeners of every change.
+   *
+   * @param {StateChange[]} changes
+   */
+  const notify = (changes: StateChange[]): void => {
+    options.onStateChange?.(changes);
+
+    for (const change of changes) {
+      dispatch(change.path, change);
+    }
+
+    for (const store of [..._stores]) {
+      store();
+    }
+  };
+
+  /**
+   * Runs a function as a batch, within which state updates don't fire
+   * state listeners right away. Once the function returns, every path
+   * that differs from the state before the batch fires once, with the
+   * change between the two. Should the function throw, the state is
+   * restored to what it was before the batch. Batches within a batch
+   * are part of the outer one.
+   *
+   * @param {() => R} fn
+   * @returns {R} What the function returned.
+   */
+  const batch = <R>(fn: () => R): R => {
+    if (_batch) {
+      return fn();
+    }
+
+    const snapshot = _state;
+    let result: R;
+    _batch = { snapshot };
+
+    try {
+      result = fn();
+    } catch (error) {
+      // Restored while still batching, as the state listeners never got
+      // to hear about the state being restored from.
+      if (_state !== snapshot) {
+        commit(snapshot);
+      }
+
+      _batch = undefined;
+      throw error;
+    }
+
+    _batch = undefined;
+
+    const changes = diff(snapshot, _state);
+    changes.push(...updateDerived(changes.map((change) => change.path)));
+
+    if (changes.length > 0) {
+      notify(changes);
+    }
+
+    return result;
+  };
+
+  const dispatcher = (
+    response: SubscriptionResponse<T, unknown>,
+    source: ErrorSource,
+  ) => {
+    // Updates state, and checks for state changes, and if any changes present,
+    // fires a dispatch for all the state listeners (if there are any).
+    if (response?.state !== undefined) {
+      commit(response.state);
+    }
+
+    // Runs effects, after checking that every one of them has a handler
+    // so that an unknown effect doesn't leave the others half-run.
+    if (response?.effects !== undefined) {
+      const effects = Object.entries(response.effects).filter(
+        ([, value]) => value !== undefined,
+      );
+
+      for (const [name] of effects) {
+        if (!_effects.has(name)) {
+          throw new Error(
+            `Unknown effect "${name}", register it with registerEffect() first.`,
+          );
+        }
+      }
+
+      const cascade = _cascade as Cascade;
+      const parent = _parent;
+      const context: EffectContext<T, E> = {
+        state: _state,
+        dispatch: ((to: string, withData?: unknown) => {
+          within(cascade, () => dispatch(to, withData), parent);
+        }) as ShapeXInstance<T, E>["dispatch"],
+      };
+
+      for (const [name, value] of effects) {
+        const result = _effects.get(name)?.(value, context);
+
+        if (result instanceof Promise) {
+          track(cascade, result, source);
+        }
+      }
+    }
+
+    // Dispatches events, or schedules them for later
+    if (response?.dispatch !== undefined) {
+      const dispatchees = isSubscriptionResponseList(response.dispatch)
+        ? response.dispatch
+        : [response.dispatch];
+
+      for (const dispatchee of dispatchees) {
+        if (
+          dispatchee.after !== undefined ||
+          dispatchee.debounce !== undefined ||
+          dispatchee.throttle !== undefined
+        ) {
+          schedule(dispatchee.to, dispatchee.with, dispatchee);
+        } else if ("with" in dispatchee) {
+          dispatch(dispatchee.to, dispatchee.with);
+        } else {
+          dispatch(dispatchee.to);
+        }
+      }
+    }
+  };
+
+  /**
+   * Schedules an event to be dispatched later. A throttled event is
+   * dispatched right away unless it was dispatched under the same key
+   * within the throttling window, in which case it is dispatched with
+   * the latest data once the window closes, opening another.
+   *
+   * @param {string} to The name of the event to dispatch.
+   * @param {unknown} withData The data to dispatch the event with.
+   * @param {DispatchSchedule} options When to dispatch the event.
+   */
+  const schedule = (
+    to: string,
+    withData: unknown,
+    options: DispatchSchedule,
+  ): void => {
+    const { after, debounce, throttle } = options;
+    const key =
+      options.key ??
+      (debounce !== undefined || throttle !== undefined ? to : undefined);
+    const existing =
+      key !== undefined
+        ? [..._scheduled].find((scheduled) => scheduled.key === key)
+        : undefined;
+
+    if (throttle !== undefined && existing?.throttled) {
+      existing.event = to;
+      existing.data = withData;
+      existing.waiting = true;
+      existing.parent = _parent;
+      return;
+    }
+
+    if (existing) {
+      clearTimeout(existing.timer);
+      _scheduled.delete(existing);
+    }
+
+    if (throttle !== undefined) {
+      dispatch(to, withData);
+    }
+
+    const ms = throttle ?? debounce ?? after ?? 0;
+    const scheduled: Scheduled = {
+      key,
+      event: to,
+      data: withData,
+      at: Date.now() + ms,
+      timer: setTimeout(() => {
+        _scheduled.delete(scheduled);
+
+        // Dispatched in a cascade of its own, as the one that scheduled
+        // it may have settled long ago.
+        within(
+          undefined,
+          () => {
+            if (!scheduled.throttled) {
+              dispatch(scheduled.event, scheduled.data);
+            } else if (scheduled.waiting) {
+              schedule(scheduled.event, scheduled.data, options);
+            }
+          },
+          scheduled.parent,
+        );
+      }, ms),
+      throttled: throttle !== undefined,
+      waiting: throttle === undefined,
+      parent: _parent,
+    };
+
+    _scheduled.add(scheduled);
+  };
+
+  /**
+   * Returns the dispatches scheduled for later, in the order they are
+   * due, leaving out throttling windows with nothing to dispatch.
+   *
+   * @returns {ScheduledDispatch[]}
+   */
+  const scheduled = (): ScheduledDispatch[] => {
+    return [..._scheduled]
+      .filter((scheduled) => scheduled.waiting)
+      .sort((a, b) => a.at - b.at)
+      .map(({ key, event, data, at }) => ({ key, event, data, at }));
+  };
+
+  /**
+   * Cancels the dispatch scheduled under the given key, along with its
+   * throttling window, if any.
+   *
+   * @param {string} key
+   */
+  const cancel = (key: string): void => {
+    for (const scheduled of _scheduled) {
+      if (scheduled.key === key) {
+        clearTimeout(scheduled.timer);
+        _scheduled.delete(scheduled);
+      }
+    }
+  };
+
+  /**
+   * Cancels every scheduled dispatch.
+   */
+  const cancelAll = (): void => {
+    for (const scheduled of _scheduled) {
+      clearTimeout(scheduled.timer);
+    }
+
+    _scheduled.clear();
+  };
+
+  /**
+   * Creates a cascade, starting from the current state.
+   *
+   * @param {boolean} awaited Whether someone waits for it to settle.
+   * @returns {Cascade}
+   */
+  const createCascade = (awaited: boolean): Cascade => {
+    return {
+      id: ++cascadeId,
+      awaited,
+      pending: new Set(),
+      errors: [],
+      snapshot: _state,
+      changed: new Set(),
+    };
+  };
+
+  /**
+   * Runs a function as part of the given cascade, so that anything it
+   * dispatches becomes part of that cascade. Without a cascade, anything
+   * it dispatches starts a cascade of its own.
+   *
+   * @param {Cascade | undefined} cascade
+   * @param {() => R} fn
+   * @param {DispatchRecord | undefined} parent The dispatch that anything
+   * dispatched is attributed to.
+   * @returns {R}
+   */
+  const within = <R>(
+    cascade: Cascade | undefined,
+    fn: () => R,
+    parent: DispatchRecord | undefined = _parent,
+  ): R => {
+    const previousCascade = _cascade;
+    const previousParent = _parent;
+    _cascade = cascade;
+    _parent = parent;
+
+    try {
+      return fn();
+    } finally {
+      _cascade = previousCascade;
+      _parent = previousParent;
+    }
+  };
+
+  /**
+   * Keeps track of async work of a cascade until it settles, recording
+   * its error if it fails.
+   *
+   * @param {Cascade} cascade
+   * @param {Promise<unknown>} promise
+   * @param {ErrorSource} source The event the work is handling.
+   */
+  const track = (
+    cascade: Cascade,
+    promise: Promise<unknown>,
+    source: ErrorSource,
+  ): void => {
+    const tracked = promise.then(
+      () => {
+        done();
+      },
+      (error) => {
+        fail(cascade, error, source);
+        done();
+      },
+    );
+
+    const done = () => {
+      cascade.pending.delete(tracked);
+      _inFlight.delete(tracked);
+      settle(cascade);
+    };
+
+    cascade.pending.add(tracked);
+    _inFlight.add(tracked);
+  };
+
+  /**
+   * Records a failure in a cascade, and reports it to the `onError`
+   * option and the subscriptions of the `shapex/error` event. Failures
+   * nobody hears about are logged instead.
+   *
+   * @param {Cascade} cascade
+   * @param {unknown} error
+   * @param {ErrorSource} source The event whose handling failed.
+   */
+  const fail = (cascade: Cascade, error: unknown, source: ErrorSource) => {
+    const details: ErrorEventData = { ...source, error };
+    cascade.errors.push(error);
+    options.onError?.(details);
+
+    // Failures of `shapex/error` handlers themselves are not dispatched
+    // again, as that could go on forever.
+    const reported =
+      source.event !== "shapex/error" &&
+      matchSubscriptions("shapex/error").length > 0;
+
+    if (reported) {
+      within(undefined, () => dispatch("shapex/error", details));
+    }
+
+    if (!reported && !options.onError && !cascade.awaited) {
+      console.error(`ShapeX: handling "${source.event}" failed.`, error);
+    }
+  };
+
+  /**
+   * Finishes a cascade once nothing in it is pending anymore, rolling
+   * back its state changes if anything in it failed and the
+   * `rollbackOnError` option is set. Only the paths the cascade changed
+   * are restored, leaving the changes of other dispatches in place.
+   *
+   * @param {Cascade} cascade
+   */
+  const settle = (cascade: Cascade): void => {
+    if (cascade.pending.size > 0 || cascade.errors.length === 0) {
+      return;
+    }
+
+    if (!options.rollbackOnError || cascade.changed.size === 0) {
+      return;
+    }
+
+    const changed = [...cascade.changed];
+    let state = _state;
+
+    for (const path of changed) {
+      // Paths within another changed path are restored along with it.
+      if (changed.some((other) => other !== path && isWithin(path, other))) {
+        continue;
+      }
+
+      const value = getPath(cascade.snapshot, path);
+
+      state =
+        value === undefined
+          ? removePath(state, path)
+          : setPath(state, path, value);
+    }
+
+    cascade.changed.clear();
+
+    if (state !== _state) {
+      within(undefined, () => commit(state));
+    }
+  };
+
+  /**
+   * Waits until none of the given promises, including any added while
+   * waiting, are pending.
+   *
+   * @param {Set<Promise<void>>} pending
+   */
+  const drain = async (pending: Set<Promise<void>>): Promise<void> => {
+    while (pending.size > 0) {
+      await Promise.all(pending);
+    }
+  };
+
+  /**
+   * Collects the values of the given coeffects from their providers.
+   *
+   * @param {string[]} names The names of the coeffects to inject.
+   * @returns {Record<string, unknown>} The coeffect values by name.
+   */
+  const injectCoeffects = (names: string[]): Record<string, unknown> => {
+    const coeffects: Record<string, unknown> = {};
+
+    for (const name of names) {
+      const provider = _coeffects.get(name);
+      if (!provider) {
+        throw new Error(
+          `Unknown coeffect "${name}", register it with registerCoeffect() first.`,
+        );
+      }
+
+      coeffects[name] = provider();
+    }
+
+    return coeffects;
+  };
+
+  /**
+   * Returns the subscriptions of an event name or path, including those
+   * of the patterns matching it, in the order they are called.
+   *
+   * @param {string} to The event name or path.
+   * @returns {Subscription<T, unknown, unknown>[]}
+   */
+  const matchSubscriptions = (
+    to: string,
+  ): Subscription<T, unknown, unknown>[] => {
+    const exact = _subscriptions.get(to) ?? [];
+    const patterns = _patterns.match(to).filter((pattern) => pattern !== to);
+
+    if (patterns.length === 0) {
+      return exact;
+    }
+
+    return [
+      ...exact,
+      ...patterns.flatMap((pattern) => _subscriptions.get(pattern) ?? []),
+    ].sort(byPriority);
+  };
+
+  /**
+   * Dispatches an event with the given name and arguments. Data of an
+   * event with a schema is validated first, and its subscriptions are
+   * called with the validated data.
+   *
+   * @param {string} to The name of the event to dispatch.
+   * @param {unknown[]} withData The arguments to pass to the event listeners.
+   * @returns {void}
+   */
+  const dispatch = <W extends unknown = undefined>(
+    to: string,
+    withData?: W,
+  ): void => {
+    if (options.batchCascades && !_batch) {
+      batch(() => dispatch(to, withData));
+      return;
+    }
+
+    if (!_cascade) {
+      const cascade = createCascade(false);
+
+      within(cascade, () => dispatch(to, withData));
+      settle(cascade);
+      return;
+    }
+
+    const record: DispatchRecord = {
+      id: ++dispatchId,
+      event: to,
+      data: withData,
+      parent: _parent?.id,
+      cascade: _cascade.id,
+    };
+
+    for (const observer of _observers) {
+      observer.dispatch?.(record);
+    }
+
+    const schema = _schemas.get(to);
+
+    if (!schema) {
+      handle(record, withData);
+      return;
+    }
+
+    const result = schema["~standard"].validate(withData);
+
+    if (result instanceof Promise) {
+      const cascade = _cascade;
+      const parent = _parent;
+
+      track(
+        cascade,
+        result.then((result) => {
+          within(cascade, () => validated(record, result), parent);
+        }),
+        { event: to, data: withData },
+      );
+    } else {
+      validated(record, result);
+    }
+  };
+
+  /**
+   * Calls the subscriptions of a dispatched event with its validated
+   * data, or reports the issues of invalid data to the subscriptions of
+   * the `shapex/validation-error` event. Invalid data nobody hears about
+   * is logged instead.
+   *
+   * @param {DispatchRecord} record The dispatch.
+   * @param {StandardSchemaResult<unknown>} result The validation result.
+   */
+  const validated = (
+    record: DispatchRecord,
+    result: StandardSchemaResult<unknown>,
+  ): void => {
+    if (!result.issues) {
+      handle(record, result.value);
+      return;
+    }
+
+    const details: ValidationErrorEventData = {
+      event: record.event,
+      data: record.data,
+      issues: result.issues,
+    };
+
+    if (matchSubscriptions("shapex/validation-error").length > 0) {
+      within(
+        _cascade,
+        () => dispatch("shapex/validation-error", details),
+        record,
+      );
+    } else {
+      console.error(
+        `ShapeX: invalid data for "${record.event}".`,
+        result.issues,
+      );
+    }
+
+    for (const observer of _observers) {
+      observer.dispatched?.(record);
+    }
+  };
+
+  /**
+   * Calls every subscription of a dispatched event.
+   *
+   * @param {DispatchRecord} record The dispatch.
+   * @param {unknown} withData The data to call the subscriptions with.
+   */
+  const handle = (record: DispatchRecord, withData: unknown): void => {
+    const to = record.event;
+    const scopedSubsriptions = matchSubscriptions(to);
+    let index = 0;
+
+    // Calls the subscriptions from where the previous run left off, up
+    // to a subscription of a lower priority than that of a pending
+    // async callback, so that it runs only once those have settled.
+    const run = (): void => {
+      const cascade = _cascade as Cascade;
+      const pending: Promise<boolean>[] = [];
+      let stopped = false;
+
+      for (; index < scopedSubsriptions.length && !stopped; index++) {
+        const subscription = scopedSubsriptions[index] as Subscription<
+          T,
+          unknown,
+          unknown
+        >;
+
+        if (
+          pending.length > 0 &&
+          subscription.priority !== scopedSubsriptions[index - 1]?.priority
+        ) {
+          const parent = _parent;
+
+          track(
+            cascade,
+            Promise.all(pending).then((stops) => {
+              if (stops.includes(true)) {
+                finish();
+              } else {
+                within(cascade, run, parent);
+              }
+            }),
+            { event: to, data: withData },
+          );
+          return;
+        }
+
+        // Skip subscriptions that an earlier callback of this dispatch removed.
+        if (!_subscriptionIndex.has(subscription.id)) {
+          continue;
+        }
+
+        if (subscription.once) {
+          removeSubscription(subscription.id);
+        }
+
+        // A failing subscription doesn't keep the others from running.
+        try {
+          const stop = within(
+            cascade,
+            () => call(subscription, to, withData),
+            record,
+          );
+
+          if (stop instanceof Promise) {
+            pending.push(stop);
+          } else {
+            stopped = stop;
+          }
+        } catch (error) {
+          fail(cascade, error, { event: to, data: withData });
+        }
+      }
+
+      finish();
+    };
+
+    const finish = (): void => {
+      for (const observer of _observers) {
+        observer.dispatched?.(record);
+      }
+    };
+
+    run();
+  };
+
+  /**
+   * Aborts the calls of a subscription still in flight.
+   *
+   * @param {Subscription<T, unknown, unknown>} subscription
+   */
+  const abortAll = (subscription: Subscription<T, unknown, unknown>): void => {
+    for (const controller of subscription.controllers) {
+      controller.abort();
+    }
+
+    subscription.controllers.clear();
+  };
+
+  /**
+   * Calls a subscription as per its concurrency, keeping track of its
+   * latest pending async call.
+   *
+   * @param {Subscription<T, unknown, unknown>} subscription
+   * @param {string} to The name of the event being dispatched.
+   * @param {unknown} withData The data the event was dispatched with.
+   * @returns {boolean | Promise<boolean>} Whether the response asked to
+   * stop calling the subscriptions after it, resolved once an async
+   * callback's response was handled.
+   */
+  const call = (
+    subscription: Subscription<T, unknown, unknown>,
+    to: string,
+    withData: unknown,
+  ): boolean | Promise<boolean> => {
+    const { concurrency, running } = subscription;
+
+    if (concurrency === "drop" && running) {
+      return false;
+    }
+
+    if (concurrency === "latest") {
+      abortAll(subscription);
+    }
+
+    const controller = new AbortController();
+    let stop: boolean | Promise<boolean>;
+
+    subscription.controllers.add(controller);
+
+    if (concurrency === "queue" && running) {
+      const cascade = _cascade as Cascade;
+      const parent = _parent;
+      const queued = running.then(() =>
+        // Calls queued before unsubscribing are dropped.
+        _subscriptionIndex.has(subscription.id)
+          ? within(
+              cascade,
+              () => invoke(subscription, to, withData, controller.signal),
+              parent,
+            )
+          : false,
+      );
+
+      // Tracked until it is called, as it is only tracked from then on.
+      track(cascade, queued, { event: to, data: withData });
+      stop = queued.catch(() => false);
+    } else {
+      stop = invoke(subscription, to, withData, controller.signal);
+    }
+
+    if (stop instanceof Promise) {
+      const pending = stop;
+
+      subscription.running = pending;
+      pending.then(() => {
+        subscription.controllers.delete(controller);
+
+        if (subscription.running === pending) {
+          subscription.running = undefined;
+        }
+      });
+    } else {
+      subscription.controllers.delete(controller);
+    }
+
+    return stop;
+  };
+
+  /**
+   * Calls a subscription's callback through its interceptor chain, and
+   * hands the (possibly intercepted) response over to the dispatcher.
+   * The response of a call aborted in the meantime is discarded.
+   *
+   * @param {Subscription<T, unknown, unknown>} subscription
+   * @param {string} to The name of the event being dispatched.
+   * @param {unknown} withData The data the event was dispatched with.
+   * @param {AbortSignal} signal Aborted once the call is superseded.
+   * @returns {boolean | Promise<boolean>} Whether the response asked to
+   * stop calling the subscriptions after it, resolved once an async
+   * callback's response was handled.
+   */
+  const invoke = (
+    subscription: Subscription<T, unknown, unknown>,
+    to: string,
+    withData: unknown,
+    signal: AbortSignal,
+  ): boolean | Promise<boolean> => {
+    const interceptors = [..._interceptors, ...subscription.interceptors];
+    const entered: Interceptor<T>[] = [];
+    const coeffects = injectCoeffects(subscription.coeffects);
+    let context: InterceptorContext<T> = {
+      event: to,
+      data: withData,
+      state: _state,
+      coeffects,
+      stack: [],
+      current: () => _state,
+    };
+
+    if (_parent && subscription.coeffects.length > 0) {
+      for (const observer of _observers) {
+        observer.inject?.({ dispatch: _parent.id, coeffects });
+      }
+    }
+
+    for (const interceptor of interceptors) {
+      if ("response" in context) {
+        break;
+      }
+
+      context = interceptor.before?.(context) ?? context;
+      entered.push(interceptor);
+    }
+
+    const respond = (context: InterceptorContext<T>): boolean => {
+      for (const interceptor of [...entered].reverse()) {
+        context = interceptor.after?.(context) ?? context;
+      }
+
+      if (context.response) {
+        dispatcher(context.response, { event: to, data: withData });
+      }
+
+      return context.response?.stop === true;
+    };
+
+    // Short-circuited by an interceptor
+    if ("response" in context) {
+      return respond(context);
+    }
 
-const isSubscriptionResponseList = <W extends unknown = undefined>(
-  dispatch: SubscriptionResponseDispatch<W> | SubscriptionResponseDispatch<W>[],
-): dispatch is SubscriptionResponseDispatch<W>[] => Array.isArray(dispatch);
+    const response = subscription.callback(context.state, context.data, {
+      event: to,
+      coeffects: context.coeffects,
+      signal,
+    });
 
-/**
- * A callback passed to subcriptions, called when the event
- * that the subscription is listening to is called.
- */
-export type EventCallback<
-  T,
-  W extends unknown = undefined,
-  D extends unknown = undefined,
-> = (
-  state: T,
-  data?: W,
-) =>
-  | SubscriptionResponse<T, D>
-  | Promise<SubscriptionResponse<T, D>>
-  | void
-  | Promise<void>;
+    // Async response
+    if (response instanceof Promise) {
+      const cascade = _cascade as Cascade;
+      const parent = _parent;
+      const responded = response.then((result) =>
+        signal.aborted
+          ? false
+          : within(
+              cascade,
+              () => respond({ ...context, response: result }),
+              parent,
+            ),
+      );
 
-type Subscription<
-  T,
-  W extends unknown = undefined,
-  D extends unknown = undefined,
-> = {
-  listener: string;
-  callback: EventCallback<T, W, D>;
-  once: boolean;
-};
+      track(cascade, responded, { event: to, data: withData });
+
+      // A failed callback doesn't stop the others, its failure is
+      // reported by tracking it.
+      return responded.catch(() => false);
+    }
+
+    // Sync response
+    return respond({ ...context, response });
+  };
 
-/**
- * An instance of the ShapeX object.
- */
-export type ShapeXInstance<T> = {
   /**
-   * Subcribe to an event.
+   * Dispatches an event, resolving with the state once the event and
+   * everything it set in motion, sync or async, has settled. Rejects if
+   * anything in the cascade failed.
+   *
+   * @param {string} to The name of the event to dispatch.
+   * @param {unknown} withData The data to pass to the event listeners.
+   * @returns {Promise<T>} The state after the cascade settled.
    */
-  subscribe: <W extends unknown = undefined, D extends unknown = undefined>(
-    listener: string,
-    callback: EventCallback<T, W, D>,
-  ) => number;
+  const dispatchAsync = async (to: string, withData?: unknown): Promise<T> => {
+    const cascade = createCascade(true);
+
+    within(cascade, () => dispatch(to, withData));
+    settle(cascade);
+    await drain(cascade.pending);
+
+    if (cascade.errors.length === 1) {
+      throw cascade.errors[0];
+    }
+
+    if (cascade.errors.length > 1) {
+      throw new AggregateError(
+        cascade.errors,
+        `${cascade.errors.length} handlers failed while dispatching "${to}".`,
+      );
+    }
+
+    return _state;
+  };
+
   /**
-   * Subscribe to an event once.
+   * Waits for all in-flight work of every dispatch to settle.
+   *
+   * @returns {Promise<void>}
    */
-  subscribeOnce: <W extends unknown = undefined, D extends unknown = undefined>(
-    listener: string,
-    callback: EventCallback<T, W, D>,
-  ) => number;
+  const settled = (): Promise<void> => {
+    return drain(_inFlight);
+  };
 
   /**
-   * Unsubscribe from an event.
+   * Returns the number of subscriptions for the given event name.
+   *
+   * @param {string} eventName The name of the event to check.
+   * @returns {number} The number of subscriptions for the given event name.
    */
-  unsubscribe: (listener: string) => void;
+  const subscriptionCount = (eventName: string | null): number => {
+    if (eventName) {
+      return _subscriptions.get(eventName)?.length ?? 0;
+    }
+
+    return Array.from(_subscriptions.keys()).length;
+  };
 
   /**
-   * Get the number of subscriptions for an event.
+   * Returns the names of all subscriptions.
+   *
+   * @returns {string[]} An array of subscription names.
    */
-  subscriptionCount: (to: string) => number;
+  const subscriptions = (): string[] => {
+    return Array.from(_subscriptions.keys());
+  };
 
   /**
-   * Get the subscriptions for an event.
+   * Registers a handler for an effect, replacing any handler previously
+   * registered under the same name.
+   *
+   * @param {string} name The name of the effect.
+   * @param {EffectHandler<T, V, E>} handler The handler running the effect.
    */
-  subscriptions: () => string[];
+  const registerEffect = <V = any>(
+    name: string,
+    handler: EffectHandler<T, V, E>,
+  ): void => {
+    _effects.set(name, handler);
+  };
 
   /**
-   * Dispatch an event.
+   * Registers a provider for a coeffect, replacing any provider
+   * previously registered under the same name.
+   *
+   * @param {string} name The name of the coeffect.
+   * @param {CoeffectProvider<V>} provider The provider of its value.
    */
-  dispatch: <W extends unknown>(to: string, withData?: W) => void;
+  const registerCoeffect = <V>(
+    name: string,
+    provider: CoeffectProvider<V>,
+  ): void => {
+    _coeffects.set(name, provider);
+  };
 
   /**
-   * Get the current state.
+   * Reads the value at a path, which is either a derived node's path or
+   * a path of state.
+   *
+   * @param {string} path
+   * @returns {unknown}
    */
-  state: () => T;
-};
+  const read = (path: string): unknown => {
+    const node = _derived.get(path);
 
-/**
- * A function that creates an EventX object.
- *
- * @param {T extends object} initialState The initial application state.
- * @returns {ShapeXInstance<T>} The ShapeX object.
- */
-export function ShapeX<T extends object>(initialState: T): ShapeXInstance<T> {
-  let _state = initialState;
-  const _subscriptions: Map<
-    string,
-    Array<Subscription<T, unknown, unknown>>
-  > = new Map();
-  let subscriptionId = 0;
+    return node ? node.value : getPath(_state, path);
+  };
 
   /**
-   * Subcribe to an event.
+   * Recomputes the derived nodes depending on any of the changed paths,
+   * in dependency order, so that a node changing in turn recomputes the
+   * nodes depending on it.
    *
-   * @param {string} listener
-   * @param {EventCallback<T, W, D>} callback
-   * @returns
+   * @param {string[]} changes The changed paths.
+   * @returns {StateChange[]} The changes of the derived nodes whose value
+   * changed.
    */
-  const subscribe = <
-    W extends unknown = undefined,
-    D extends unknown = undefined,
-  >(
-    listener: string,
-    callback: EventCallback<T, W, D>,
-  ): number => {
-    if (!_subscriptions.has(listener)) {
-      _subscriptions.set(listener, []);
+  const updateDerived = (changes: string[]): StateChange[] => {
+    const changed = new Set(changes);
+    const updated: StateChange[] = [];
+
+    for (const node of _derivedOrder) {
+      if (!node.dependencies.some((dependency) => changed.has(dependency))) {
+        continue;
+      }
+
+      const value = node.compute(...node.dependencies.map(read));
+
+      if (!Object.is(value, node.value)) {
+        updated.push({
+          path: node.path,
+          kind: "changed",
+          oldValue: node.value,
+          newValue: value,
+        });
+        node.value = value;
+        changed.add(node.path);
+      }
     }
 
-    const subscriptions = _subscriptions.get(listener);
-    if (subscriptions) {
-      subscriptions.push({
-        listener,
-        callback: callback as unknown as EventCallback<T, unknown, unknown>,
-        once: false,
-      });
+    return updated;
+  };
+
+  /**
+   * Sorts the derived nodes so that every node comes after the derived
+   * nodes it depends on, throwing if the dependencies form a cycle.
+   *
+   * @param {Map<string, DerivedNode>} nodes
+   * @returns {DerivedNode[]}
+   */
+  const sortDerived = (nodes: Map<string, DerivedNode>): DerivedNode[] => {
+    const sorted: DerivedNode[] = [];
+    const visited: Set<string> = new Set();
+
+    const visit = (node: DerivedNode, trail: string[]): void => {
+      if (trail.includes(node.path)) {
+        const cycle = [...trail.slice(trail.indexOf(node.path)), node.path];
+
+        throw new Error(`Derived nodes form a cycle: ${cycle.join(" -> ")}`);
+      }
+
+      if (visited.has(node.path)) {
+        return;
+      }
+
+      for (const dependency of node.dependencies) {
+        const dependencyNode = nodes.get(dependency);
+        if (dependencyNode) {
+          visit(dependencyNode, [...trail, node.path]);
+        }
+      }
+
+      visited.add(node.path);
+      sorted.push(node);
+    };
+
+    for (const node of nodes.values()) {
+      visit(node, []);
     }
 
-    return ++subscriptionId;
+    return sorted;
   };
 
   /**
-   * Subcribe to an event, once.
+   * Derives a memoized value from paths of state or other derived nodes.
+   * The value is recomputed only when one of its dependencies changes,
+   * and can be subscribed to at `$.<name>` like any other path.
    *
-   * @param {string} listener
-   * @param {EventCallback<T, W, D>} callback
-   * @returns
+   * @param {string} name The name of the derived node.
+   * @param {string[]} dependencies The paths the value is computed from.
+   * @param {(...values: any[]) => unknown} compute Computes the value from
+   * the values of the dependencies.
    */
-  const subscribeOnce = <W extends unknown = undefined, D extends unknown = W>(
-    listener: string,
-    callback: EventCallback<T, W, D>,
-  ): number => {
-    if (!_subscriptions.has(listener)) {
-      _subscriptions.set(listener, []);
+  const derive: ShapeXInstance<T, E, V>["derive"] = (
+    name,
+    dependencies,
+    compute,
+  ) => {
+    const path = `$.${name}`;
+
+    if (name in _state) {
+      throw new Error(`Derived node "${name}" conflicts with a state key.`);
     }
 
-    const subscriptions = _subscriptions.get(listener);
-    if (subscriptions) {
-      subscriptions.push({
-        listener,
-        callback: callback as unknown as EventCallback<T, unknown, unknown>,
-        once: true,
-      });
+    const node: DerivedNode = {
+      path,
+      dependencies,
+      compute,
+      value: undefined,
+    };
+    const nodes = new Map(_derived);
+    nodes.set(path, node);
+
+    // Sorting first means a cycle leaves the existing graph untouched.
+    _derivedOrder = sortDerived(nodes);
+
+    for (const dependency of _derived.get(path)?.dependencies ?? []) {
+      watch(dependency, -1);
     }
 
-    return ++subscriptionId;
-  };
+    for (const dependency of dependencies) {
+      watch(dependency, 1);
+    }
+
+    _derived.set(path, node);
+    node.value = compute(...dependencies.map(read));
 
-  const unsubscribe = (listener: string): void => {
-    if (_subscriptions.has(listener)) {
-      _subscriptions.delete(listener);
+    // Recomputes any nodes that depended on the path before it was derived.
+    for (const change of updateDerived([path])) {
+      dispatch(change.path, change);
     }
   };
 
   /**
-   * Composes a list of changes between two states.
+   * Selects a value from state, or the value at a path of state or of a
+   * derived node, as a store. The selected value is memoized, so that
+   * it stays the same for as long as the equality function considers
+   * it equal, and the store's listeners are only called when it
+   * changes. While the store has listeners, it checks for changes after
+   * every state update.
    *
-   * @param {T extends object} oldState
-   * @param {T extends object} newState
-   * @returns {string[]} The list of changes as array of paths.
+   * @param {string | ((state: T) => unknown)} selector A function of
+   * state, or a path.
+   * @param {(a: unknown, b: unknown) => boolean} equalityFn Whether two
+   * selected values are equal, `Object.is` by default.
+   * @returns {SelectorStore<unknown>}
    */
-  const changedState = <T extends object>(
-    oldState: T,
-    newState: T,
-  ): string[] => {
-    const paths = <R extends object>(
-      state: R,
-      path: string,
-    ): { path: string; value: unknown }[] => {
-      const _paths = [] as { path: string; value: unknown }[];
+  const select = (
+    selector: string | ((state: T) => unknown),
+    equalityFn: (a: any, b: any) => boolean = Object.is,
+  ): SelectorStore<unknown> => {
+    const _listeners: Set<(value: unknown) => void> = new Set();
+    let _selected = false;
+    let _selectedFrom: T | undefined;
+    let _value: unknown;
 
-      for (const key in state) {
-        const currentPath = `${path}.${key}`;
-        _paths.push({
-          path: currentPath,
-          value: state[key],
-        });
+    const getSnapshot = (): unknown => {
+      // Paths may be of derived nodes, whose values aren't part of state.
+      if (
+        _selected &&
+        typeof selector !== "string" &&
+        _selectedFrom === _state
+      ) {
+        return _value;
+      }
 
-        if (typeof state[key] === "object" && state[key] !== null) {
-          _paths.push(...paths(state[key], currentPath));
-        }
+      const value =
+        typeof selector === "string" ? read(selector) : selector(_state);
+
+      if (!_selected || !equalityFn(_value, value)) {
+        _value = value;
       }
 
-      return _paths;
+      _selected = true;
+      _selectedFrom = _state;
+
+      return _value;
     };
 
-    const differ = <S extends object>(oldState: S, newState: S): string[] => {
-      const oldPaths = paths(oldState, "$");
-      const oldPathKeys = oldPaths.map((x) => x.path);
-      const newPaths = paths(newState, "$");
-      const newPathKeys = newPaths.map((x) => x.path);
+    const check = (): void => {
+      const previous = _value;
 
-      // All new paths
-      const added = newPathKeys.filter((path) => !oldPathKeys.includes(path));
+      if (!Object.is(previous, getSnapshot())) {
+        for (const listener of [..._listeners]) {
+          listener(_value);
+        }
+      }
+    };
 
-      // All removed paths
-      const removed = oldPathKeys.filter((path) => !newPathKeys.includes(path));
+    const subscribe = (listener: (value: unknown) => void): (() => void) => {
+      // Wrapped, so that the same listener can be subscribed twice.
+      const entry = (value: unknown): void => listener(value);
 
-      // Paths that remained
-      const same = oldPathKeys.filter((path) => newPathKeys.includes(path));
+      _listeners.add(entry);
+      _stores.add(check);
+      listener(getSnapshot());
 
-      // Paths that changed
-      const changed = same.filter((path) => {
-        const oldValue = oldPaths.find((x) => x.path === path)?.value;
-        const newValue = newPaths.find((x) => x.path === path)?.value;
+      return () => {
+        _listeners.delete(entry);
 
-        return oldValue !== newValue;
-      });
+        if (_listeners.size === 0) {
+          _stores.delete(check);
+        }
+      };
+    };
 
-      return [...new Set([...added, ...removed, ...changed])];
+    const observable = (): SelectorObservable<unknown> => {
+      return withObservable(
+        {
+          subscribe: (observer: SelectorObserver<unknown>) => ({
+            unsubscribe: subscribe((value) => {
+              if (typeof observer === "function") {
+                observer(value);
+              } else {
+                observer.next?.(value);
+              }
+            }),
+          }),
+        },
+        observable,
+      );
     };
 
-    return differ(oldState, newState);
+    return withObservable({ getSnapshot, subscribe }, observable);
   };
 
-  const dispatcher = (
-    response: SubscriptionResponse<T, unknown>,
-    subscription: Subscription<T, unknown, unknown>,
-    callbackCount: number,
-    remainingSubscriptions: Subscription<T, unknown, unknown>[],
-  ) => {
-    // Updates state, and checks for state changes, and if any changes present,
-    // fires a dispatch for all the state listeners (if there are any).
-    if (response?.state !== undefined) {
-      const changes = changedState(_state, response.state);
-      _state = response.state;
+  /**
+   * Returns the value of a derived node.
+   *
+   * @param {string} name The name of the derived node.
+   * @returns {unknown} The derived value.
+   */
+  const derived = <K extends DerivedName<V>>(name: K): DerivedValue<V, K> => {
+    return _derived.get(`$.${name}`)?.value as DerivedValue<V, K>;
+  };
 
-      for (let i = 0; i < changes.length; i++) {
-        dispatch(changes[i]);
-      }
-    }
+  /**
+   * Adds an interceptor that wraps every subscription callback, before
+   * any interceptors of the subscription itself.
+   *
+   * @param {Interceptor<T>} interceptor The interceptor to add.
+   * @returns {() => void} A function that removes the interceptor.
+   */
+  const intercept = (interceptor: Interceptor<T>): (() => void) => {
+    _interceptors.push(interceptor);
 
-    // Dispatches events
-    if (response?.dispatch !== undefined) {
-      if (isSubscriptionResponseList(response.dispatch)) {
-        for (const dispatchee of response.dispatch) {
-          if (dispatchee?.with) {
-            dispatch(dispatchee.to, dispatchee.with);
-          } else {
-            dispatch(dispatchee.to);
-          }
-        }
-      } else {
-        if (response.dispatch?.with) {
-          dispatch(response.dispatch.to, response.dispatch.with);
-        } else {
-          dispatch(response.dispatch.to);
-        }
+    return () => {
+      const index = _interceptors.indexOf(interceptor);
+      if (index !== -1) {
+        _interceptors.splice(index, 1);
       }
-    }
+    };
+  };
 
-    callbackCount++;
+  /**
+   * Attaches a schema to an event, replacing any schema previously
+   * attached to it.
+   *
+   * @param {string} name The name of the event.
+   * @param {StandardSchemaV1} schema The schema its data must pass.
+   */
+  const defineEvent = (name: string, schema: StandardSchemaV1): void => {
+    _schemas.set(name, schema);
+  };
 
-    if (!subscription.once) {
-      remainingSubscriptions.push(subscription);
-    }
+  /**
+   * Returns the current state.
+   *
+   * @returns {T} The current state.
+   */
+  const state = (): T => {
+    return _state;
   };
 
   /**
-   * Dispatches an event with the given name and arguments.
+   * Registers a module, adding its initial state at `$.<name>` unless
+   * state is already there, such as when it was restored.
    *
-   * @param {string} to The name of the event to dispatch.
-   * @param {unknown[]} withData The arguments to pass to the event listeners.
-   * @returns {void}
+   * @param {string} name The name of the module.
+   * @param {S} initialState The initial state of the module.
+   * @returns {ShapeXModule<S, M>} The module.
    */
-  const dispatch = <W extends unknown = undefined>(
-    to: string,
-    withData?: W,
-  ): void => {
-    if (!_subscriptions.has(to)) {
-      return;
+  const module = <S extends object, M extends EventMap = AnyEventMap>(
+    name: string,
+    initialState: S,
+  ): ShapeXModule<S, M> => {
+    if (_modules.has(name)) {
+      throw new Error(`Module "${name}" is already registered.`);
     }
 
-    const scopedSubsriptions = _subscriptions.get(to) ?? [];
-    const remainingSubscriptions = [] as Array<
-      Subscription<T, unknown, unknown>
-    >;
-    let callbackCount = 0;
+    const statePath = `$.${name}`;
+    const listeners: Map<number, string> = new Map();
+    let removed = false;
 
-    for (const subscription of scopedSubsriptions) {
-      const callback = subscription.callback as unknown as EventCallback<
-        T,
-        W,
-        unknown
-      >;
+    _modules.add(name);
 
-      let response = withData ? callback(_state, withData) : callback(_state);
+    if (getPath(_state, statePath) === undefined) {
+      setState(setPath(_state, statePath, initialState));
+    }
 
-      // Async response
-      if (response instanceof Promise) {
-        response.then((result) => {
-          if (!result) return;
+    const event = (to: string): string => {
+      return to.startsWith("/") ? to.slice(1) : `${name}/${to}`;
+    };
 
-          dispatcher(
-            result,
-            subscription,
-            callbackCount,
-            remainingSubscriptions,
-          );
-        });
+    const listener = (to: string): string => {
+      if (to === "$") {
+        return statePath;
       }
 
-      // Sync response
-      else {
-        if (!response) return;
+      return to.startsWith("$.") ? `${statePath}.${to.slice(2)}` : event(to);
+    };
+
+    const relative = (path: string): string => {
+      return path === statePath ? "$" : `$.${path.slice(statePath.length + 1)}`;
+    };
 
-        dispatcher(
-          response,
-          subscription,
-          callbackCount,
-          remainingSubscriptions,
-        );
+    // Prefixes the events dispatched by the module's callbacks, and
+    // drops the responses of async callbacks that resolve once the
+    // module is removed, which would otherwise restore its state.
+    const scope: Interceptor<T> = {
+      name: `module(${name})`,
+      after: (context) => {
+        if (removed) {
+          context.response = undefined;
+          return;
+        }
+
+        const dispatch = context.response?.dispatch;
+
+        if (context.response && dispatch !== undefined) {
+          context.response = {
+            ...context.response,
+            dispatch: (Array.isArray(dispatch) ? dispatch : [dispatch]).map(
+              (dispatchee) => ({
+                ...dispatchee,
+                to: event(dispatchee.to),
+                ...(dispatchee.key !== undefined
+                  ? { key: event(dispatchee.key) }
+                  : {}),
+              }),
+            ),
+          };
+        }
+      },
+    };
+
+    const add = (
+      to: string,
+      callback: EventCallback<any, unknown, unknown>,
+      once: boolean,
+      options: SubscribeOptions = {},
+    ): SubscriptionHandle => {
+      // Changes of its state are relative to its state as well.
+      const scoped: EventCallback<any, unknown, unknown> = listener(
+        to,
+      ).startsWith("$")
+        ? (state, change, context) =>
+            callback(
+              state,
+              {
+                ...(change as StateChange),
+                path: relative((change as StateChange).path),
+              },
+              { ...context, event: relative(context.event) },
+            )
+        : callback;
+      const handle = addSubscription(listener(to), scoped, once, {
+        ...options,
+        interceptors: [path(statePath), scope, ...(options.interceptors ?? [])],
+      });
+
+      listeners.set(handle.id, listener(to));
+
+      return handle;
+    };
+
+    const unsubscribeModule = (
+      to: string | number | SubscriptionHandle,
+    ): void => {
+      const ids =
+        typeof to === "string"
+          ? Array.from(listeners.keys()).filter(
+              (id) => listeners.get(id) === listener(to),
+            )
+          : [typeof to === "number" ? to : to.id];
+
+      for (const id of ids) {
+        if (listeners.delete(id)) {
+          removeSubscription(id);
+        }
       }
-    }
+    };
 
-    _subscriptions.set(to, remainingSubscriptions);
-  };
+    const unsubscribeAllModule = (): void => {
+      for (const id of listeners.keys()) {
+        removeSubscription(id);
+      }
 
-  /**
-   * Returns the number of subscriptions for the given event name.
-   *
-   * @param {string} eventName The name of the event to check.
-   * @returns {number} The number of subscriptions for the given event name.
-   */
-  const subscriptionCount = (eventName: string | null): number => {
-    if (eventName) {
-      return _subscriptions.get(eventName)?.length ?? 0;
-    }
+      listeners.clear();
+    };
 
-    return Array.from(_subscriptions.keys()).length;
+    return {
+      name,
+      subscribe: ((
+        to: string,
+        callback: EventCallback<any, unknown, unknown>,
+        options?: SubscribeOptions,
+      ) => add(to, callback, false, options)) as ShapeXModule<
+        S,
+        M
+      >["subscribe"],
+      subscribeOnce: ((
+        to: string,
+        callback: EventCallback<any, unknown, unknown>,
+        options?: SubscribeOptions,
+      ) => add(to, callback, true, options)) as ShapeXModule<
+        S,
+        M
+      >["subscribeOnce"],
+      unsubscribe: unsubscribeModule,
+      unsubscribeAll: unsubscribeAllModule,
+      dispatch: ((to: string, withData?: unknown) => {
+        dispatch(event(to), withData);
+      }) as ShapeXModule<S, M>["dispatch"],
+      dispatchAsync: (async (to: string, withData?: unknown) => {
+        return getPath(await dispatchAsync(event(to), withData), statePath);
+      }) as ShapeXModule<S, M>["dispatchAsync"],
+      state: () => getPath(_state, statePath) as S,
+      remove: () => {
+        removed = true;
+        unsubscribeAllModule();
+
+        for (const scheduled of _scheduled) {
+          if (
+            scheduled.event.startsWith(`${name}/`) ||
+            scheduled.key?.startsWith(`${name}/`)
+          ) {
+            clearTimeout(scheduled.timer);
+            _scheduled.delete(scheduled);
+          }
+        }
+
+        _modules.delete(name);
+        setState(removePath(_state, statePath));
+      },
+    };
   };
 
   /**
-   * Returns the names of all subscriptions.
+   * Replaces the state, notifying the listeners of every changed path
+   * as any other state update would.
    *
-   * @returns {string[]} An array of subscription names.
+   * @param {T} state The new state.
    */
-  const subscriptions = (): string[] => {
-    return Array.from(_subscriptions.keys());
+  const setState = (state: T): void => {
+    within(undefined, () => commit(state), undefined);
   };
 
   /**
-   * Returns the current state.
+   * Adds an observer that gets notified of every dispatch and state
+   * update, e.g. to record them.
    *
-   * @returns {T} The current state.
+   * @param {Observer<T>} observer The observer to add.
+   * @returns {() => void} A function that removes the observer.
    */
-  const state = (): T => {
-    return _state;
+  const observe = (observer: Observer<T>): (() => void) => {
+    _observers.add(observer);
+
+    return () => {
+      _observers.delete(observer);
+    };
   };
 
   return {
     subscribe,
     subscribeOnce,
+    waitFor: waitFor as ShapeXInstance<T, E, V>["waitFor"],
+    events: events as ShapeXInstance<T, E, V>["events"],
     unsubscribe,
+    unsubscribeAll,
     subscriptionCount,
     subscriptions,
-    dispatch,
+    dispatch: dispatch as ShapeXInstance<T, E>["dispatch"],
+    dispatchAsync: dispatchAsync as ShapeXInstance<T, E>["dispatchAsync"],
+    settled,
+    scheduled,
+    cancel,
+    cancelAll,
+    registerEffect,
+    registerCoeffect,
+    intercept,
+    derive,
+    derived,
+    select: select as ShapeXInstance<T, E, V>["select"],
+    defineEvent,
+    batch,
+    module,
     state,
+    setState,
+    observe,
   };
 }
+
+export { diffState, type DiffFilter, type StatePatch } from "./diff.ts";
+export * from "./history.ts";
+export * from "./devtools.ts";
+export * from "./persist.ts";
+export * from "./bridge.ts";
+export * from "./sync.ts";
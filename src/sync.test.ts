@@ -0,0 +1,377 @@
+import { describe, it, expect, vi } from "vitest";
+import { ShapeX } from "./shapex.ts";
+import { syncClient, syncServer, type SyncSocket } from "./sync.ts";
+
+type FakeSocket = SyncSocket & {
+  /**
+   * The JSON messages sent over the socket, parsed.
+   */
+  sent: any[];
+  emit: (
+    type: "open" | "message" | "close",
+    event?: { data?: unknown },
+  ) => void;
+  /**
+   * The socket on the other end, if connected.
+   */
+  peer?: FakeSocket | undefined;
+};
+
+/**
+ * Creates a socket delivering what is sent over it to its peer, once
+ * the current task is done, as a real socket would.
+ */
+const fakeSocket = (): FakeSocket => {
+  const listeners: Map<
+    string,
+    Set<(event: { data?: unknown }) => void>
+  > = new Map();
+
+  const socket: FakeSocket = {
+    sent: [],
+    send: (message) => {
+      if (message.startsWith("{")) {
+        socket.sent.push(JSON.parse(message));
+      }
+
+      queueMicrotask(() => socket.peer?.emit("message", { data: message }));
+    },
+    addEventListener: (type, listener) => {
+      if (!listeners.has(type)) {
+        listeners.set(type, new Set());
+      }
+
+      listeners.get(type)!.add(listener);
+    },
+    removeEventListener: (type, listener) => {
+      listeners.get(type)?.delete(listener);
+    },
+    emit: (type, event = {}) => {
+      for (const listener of [...(listeners.get(type) ?? [])]) {
+        listener(event);
+      }
+    },
+  };
+
+  return socket;
+};
+
+/**
+ * Connects a client and the server over a pair of fake sockets.
+ */
+const connection = (
+  server: ReturnType<typeof syncServer>,
+  client?: ReturnType<typeof syncClient>,
+) => {
+  const clientSocket = fakeSocket();
+  const serverSocket = fakeSocket();
+
+  clientSocket.peer = serverSocket;
+  serverSocket.peer = clientSocket;
+  server.connect(serverSocket);
+  client?.connect(clientSocket);
+
+  return {
+    clientSocket,
+    serverSocket,
+    close: () => {
+      clientSocket.peer = undefined;
+      serverSocket.peer = undefined;
+      clientSocket.emit("close");
+      serverSocket.emit("close");
+    },
+  };
+};
+
+/**
+ * Waits for every message in flight to be delivered.
+ */
+const settled = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const gameApp = (score = 0) => {
+  const $ = ShapeX({ score, players: [] as string[], ui: { open: false } });
+
+  $.subscribe("score", (state, by: number | undefined) => ({
+    state: { ...state, score: state.score + (by ?? 1) },
+  }));
+  $.subscribe("join", (state, name: string | undefined) => ({
+    state: { ...state, players: [...state.players, name!] },
+  }));
+  $.subscribe("ui/toggle", (state) => ({
+    state: { ...state, ui: { open: !state.ui.open } },
+  }));
+
+  return $;
+};
+
+const options = { events: ["score", "join"], paths: ["$.score", "$.players"] };
+
+describe("sync", () => {
+  it("syncs clients from a snapshot of the server's state", async () => {
+    const serverApp = gameApp(5);
+    const clientApp = gameApp();
+    const server = syncServer(serverApp, options);
+    const client = syncClient(clientApp, options);
+
+    connection(server, client);
+    await settled();
+
+    expect(clientApp.state().score).toBe(5);
+    expect(client.seq()).toBe(0);
+  });
+
+  it("has the server handle client events and broadcast the changes", async () => {
+    const serverApp = gameApp();
+    const server = syncServer(serverApp, options);
+    const apps = [gameApp(), gameApp()];
+    const clients = apps.map((app) => syncClient(app, options));
+
+    for (const client of clients) {
+      connection(server, client);
+    }
+
+    await settled();
+    apps[0]!.dispatch("score", 2);
+    apps[1]!.dispatch("join", "Jane");
+    await settled();
+
+    for (const app of [serverApp, ...apps]) {
+      expect(app.state()).toMatchObject({ score: 2, players: ["Jane"] });
+    }
+
+    expect(server.seq()).toBe(2);
+    expect(clients.map((client) => client.seq())).toEqual([2, 2]);
+    expect(clients.map((client) => client.pending())).toEqual([0, 0]);
+  });
+
+  it("applies client events optimistically until the server confirms them", async () => {
+    const serverApp = ShapeX({ name: "" });
+    const clientApp = ShapeX({ name: "" });
+
+    serverApp.subscribe("rename", (state, name: string | undefined) => ({
+      state: { ...state, name: name!.toUpperCase() },
+    }));
+    clientApp.subscribe("rename", (state, name: string | undefined) => ({
+      state: { ...state, name: name! },
+    }));
+
+    const server = syncServer(serverApp, { events: ["rename"] });
+    const client = syncClient(clientApp, { events: ["rename"] });
+
+    connection(server, client);
+    await settled();
+
+    clientApp.dispatch("rename", "jane");
+    expect(clientApp.state().name).toBe("jane");
+    expect(client.pending()).toBe(1);
+
+    await settled();
+    expect(clientApp.state().name).toBe("JANE");
+    expect(client.pending()).toBe(0);
+  });
+
+  it("acknowledges events once the server's async handling settles", async () => {
+    const serverApp = ShapeX({ score: 0 });
+    const clientApp = ShapeX({ score: 0 });
+    const scores: number[] = [];
+
+    serverApp.subscribe("score", async (state) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      return { state: { score: serverApp.state().score + 1 } };
+    });
+    clientApp.subscribe("score", (state) => ({
+      state: { score: state.score + 1 },
+    }));
+    clientApp.subscribe("$.score", (state) => {
+      scores.push(state.score);
+    });
+
+    const server = syncServer(serverApp, { events: ["score"] });
+    const client = syncClient(clientApp, { events: ["score"] });
+
+    connection(server, client);
+    await settled();
+
+    clientApp.dispatch("score");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(scores).toEqual([1]);
+    expect(clientApp.state().score).toBe(1);
+    expect(client.pending()).toBe(0);
+  });
+
+  it("keeps optimistic changes on top of changes from other clients", async () => {
+    const serverApp = gameApp();
+    const server = syncServer(serverApp, options);
+    const clientApp = gameApp();
+    const client = syncClient(clientApp, options);
+    const { clientSocket } = connection(server, client);
+
+    await settled();
+
+    // Holds back what the client sends, as if it's slow to arrive.
+    const peer = clientSocket.peer;
+    clientSocket.peer = undefined;
+    clientApp.dispatch("join", "Jane");
+    serverApp.dispatch("score", 3);
+    await settled();
+
+    expect(clientApp.state()).toMatchObject({ score: 3, players: ["Jane"] });
+    expect(client.pending()).toBe(1);
+
+    clientSocket.peer = peer;
+    peer!.emit("message", { data: JSON.stringify(clientSocket.sent.at(-1)) });
+    await settled();
+
+    expect(serverApp.state().players).toEqual(["Jane"]);
+    expect(client.pending()).toBe(0);
+  });
+
+  it("syncs only the given paths", async () => {
+    const serverApp = gameApp(1);
+    const clientApp = gameApp();
+    const server = syncServer(serverApp, options);
+    const client = syncClient(clientApp, options);
+
+    clientApp.dispatch("ui/toggle");
+    serverApp.dispatch("ui/toggle");
+    serverApp.dispatch("ui/toggle");
+    connection(server, client);
+    await settled();
+
+    expect(clientApp.state()).toEqual({
+      score: 1,
+      players: [],
+      ui: { open: true },
+    });
+  });
+
+  it("ignores events it doesn't sync", async () => {
+    const serverApp = gameApp();
+    const server = syncServer(serverApp, options);
+    const { clientSocket } = connection(server);
+
+    clientSocket.send(JSON.stringify({ type: "hello", client: "a" }));
+    clientSocket.send(
+      JSON.stringify({ type: "event", id: 1, event: "ui/toggle" }),
+    );
+    clientSocket.send("not json");
+    await settled();
+
+    expect(serverApp.state().ui.open).toBe(false);
+  });
+
+  it("resyncs and resends unconfirmed events when reconnecting", async () => {
+    const serverApp = gameApp();
+    const server = syncServer(serverApp, options);
+    const clientApp = gameApp();
+    const client = syncClient(clientApp, options);
+
+    connection(server, client).close();
+    await settled();
+
+    serverApp.dispatch("score", 10);
+    clientApp.dispatch("join", "Jane");
+    await settled();
+    expect(clientApp.state()).toMatchObject({ score: 0, players: ["Jane"] });
+    expect(client.pending()).toBe(1);
+
+    connection(server, client);
+    await settled();
+
+    expect(serverApp.state()).toMatchObject({ score: 10, players: ["Jane"] });
+    expect(clientApp.state()).toMatchObject({ score: 10, players: ["Jane"] });
+    expect(client.seq()).toBe(server.seq());
+    expect(client.pending()).toBe(0);
+  });
+
+  it("doesn't handle resent events twice", async () => {
+    const serverApp = gameApp();
+    const server = syncServer(serverApp, options);
+    const first = connection(server);
+
+    first.clientSocket.send(JSON.stringify({ type: "hello", client: "a" }));
+    first.clientSocket.send(
+      JSON.stringify({ type: "event", id: 1, event: "score" }),
+    );
+    await settled();
+    first.close();
+
+    const second = connection(server);
+    second.clientSocket.send(JSON.stringify({ type: "hello", client: "a" }));
+    second.clientSocket.send(
+      JSON.stringify({ type: "event", id: 1, event: "score" }),
+    );
+    await settled();
+
+    expect(serverApp.state().score).toBe(1);
+    expect(second.serverSocket.sent).toEqual([
+      { type: "snapshot", seq: 1, state: { score: 1, players: [] }, acked: 1 },
+      { type: "ack", id: 1, seq: 1 },
+    ]);
+  });
+
+  it("resyncs after missing a change", async () => {
+    const clientApp = gameApp();
+    const client = syncClient(clientApp, { ...options, id: "a" });
+    const socket = fakeSocket();
+
+    client.connect(socket);
+    socket.emit("message", {
+      data: JSON.stringify({
+        type: "snapshot",
+        seq: 1,
+        state: { score: 1, players: [] },
+        acked: 0,
+      }),
+    });
+    socket.emit("message", {
+      data: JSON.stringify({
+        type: "patch",
+        seq: 3,
+        patches: [{ path: "$.score", value: 3 }],
+      }),
+    });
+
+    expect(clientApp.state().score).toBe(1);
+    expect(socket.sent).toEqual([
+      { type: "hello", client: "a" },
+      { type: "hello", client: "a" },
+    ]);
+  });
+
+  it("says hello once the socket opens", () => {
+    const client = syncClient(gameApp(), { ...options, id: "a" });
+    const socket = fakeSocket();
+
+    socket.readyState = 0;
+    client.connect(socket);
+    expect(socket.sent).toEqual([]);
+
+    socket.emit("open");
+    expect(socket.sent).toEqual([{ type: "hello", client: "a" }]);
+  });
+
+  it("stops syncing when closed", async () => {
+    const serverApp = gameApp();
+    const server = syncServer(serverApp, options);
+    const clientApp = gameApp();
+    const client = syncClient(clientApp, options);
+    const send = vi.fn();
+
+    const { serverSocket } = connection(server, client);
+    await settled();
+    serverSocket.send = send;
+
+    client.close();
+    server.close();
+    clientApp.dispatch("score");
+    serverApp.dispatch("score");
+    await settled();
+
+    expect(send).not.toHaveBeenCalled();
+    expect(serverApp.state().score).toBe(1);
+    expect(clientApp.state().score).toBe(1);
+  });
+});
@@ -0,0 +1,549 @@
+import type { ShapeXInstance } from "./shapex.ts";
+import { applyPatches, diffPatches, type StatePatch } from "./diff.ts";
+import { getPath, removePath, setPath } from "./paths.ts";
+import { patternTrie } from "./patterns.ts";
+
+/**
+ * A connection between a client and the server, such as a browser
+ * `WebSocket` or a socket of the `ws` package.
+ */
+export type SyncSocket = {
+  send: (message: string) => void;
+  addEventListener: (
+    type: "open" | "message" | "close",
+    listener: (event: { data?: unknown }) => void,
+  ) => void;
+  removeEventListener: (
+    type: "open" | "message" | "close",
+    listener: (event: { data?: unknown }) => void,
+  ) => void;
+  /**
+   * The `WebSocket` ready state, where 0 means still connecting.
+   */
+  readyState?: number;
+};
+
+/**
+ * Options for syncing state between clients and the server.
+ */
+export type SyncOptions = {
+  /**
+   * The events, or patterns of events, clients send to the server.
+   */
+  events: string[];
+  /**
+   * The `$.` paths of state owned by the server, syncing the whole
+   * state if not given.
+   */
+  paths?: string[];
+};
+
+/**
+ * Options for syncing a client's state with the server.
+ */
+export type SyncClientOptions = SyncOptions & {
+  /**
+   * Identifies the client to the server across reconnections. Defaults
+   * to a random id.
+   */
+  id?: string;
+};
+
+/**
+ * The server side of syncing state.
+ */
+export type SyncServer = {
+  /**
+   * Start syncing with a client connected over the given socket, until
+   * the socket closes.
+   */
+  connect: (socket: SyncSocket) => void;
+  /**
+   * The sequence number of the latest state change.
+   */
+  seq: () => number;
+  /**
+   * Stop syncing with every client.
+   */
+  close: () => void;
+};
+
+/**
+ * The client side of syncing state.
+ */
+export type SyncClient = {
+  /**
+   * Start syncing with the server over the given socket, resyncing
+   * state and resending unconfirmed events. Replaces any previous
+   * socket, e.g. when reconnecting.
+   */
+  connect: (socket: SyncSocket) => void;
+  /**
+   * The sequence number of the latest state change received from the
+   * server.
+   */
+  seq: () => number;
+  /**
+   * How many events sent to the server it hasn't confirmed yet.
+   */
+  pending: () => number;
+  /**
+   * Stop syncing, keeping the current state.
+   */
+  close: () => void;
+};
+
+/**
+ * A message a client sends to the server.
+ */
+export type SyncClientMessage =
+  | { type: "hello"; client: string }
+  | { type: "event"; id: number; event: string; data: unknown };
+
+/**
+ * A message the server sends to a client. Acknowledged events are
+ * those up to the given id, whose changes are part of the state as of
+ * the given sequence number.
+ */
+export type SyncServerMessage =
+  | { type: "snapshot"; seq: number; state: unknown; acked: number }
+  | { type: "patch"; seq: number; patches: StatePatch[] }
+  | { type: "ack"; id: number; seq: number };
+
+/**
+ * An event sent to the server and not yet confirmed by it, along with
+ * the changes it made to state locally.
+ */
+type PendingEvent = {
+  id: number;
+  event: string;
+  data: unknown;
+  patches: StatePatch[];
+};
+
+/**
+ * Parses a message received over a socket, which is ignored if it
+ * isn't valid JSON.
+ *
+ * @param {unknown} data
+ * @returns {unknown}
+ */
+const parse = (data: unknown): unknown => {
+  try {
+    return JSON.parse(String(data));
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Picks the given paths of state.
+ *
+ * @param {unknown} state
+ * @param {string[]} paths
+ * @returns {unknown}
+ */
+const pick = (state: unknown, paths: string[]): unknown => {
+  if (paths.includes("$")) {
+    return state;
+  }
+
+  let picked: unknown = {};
+
+  for (const path of paths) {
+    const value = getPath(state, path);
+
+    if (value !== undefined) {
+      picked = setPath(picked, path, value);
+    }
+  }
+
+  return picked;
+};
+
+/**
+ * Makes an instance the authoritative server of state synced with
+ * clients. Clients send the selected events, which the server handles
+ * and acknowledges, and every change of the synced paths is broadcast
+ * to every client with a sequence number. A connecting client first
+ * gets a snapshot of the synced state.
+ *
+ * @param {ShapeXInstance<T, any, any>} app The server's instance.
+ * @param {SyncOptions} options Options for syncing.
+ * @returns {SyncServer}
+ */
+export const syncServer = <T>(
+  app: ShapeXInstance<T, any, any>,
+  options: SyncOptions,
+): SyncServer => {
+  const events = patternTrie();
+  const paths = options.paths ?? ["$"];
+  const _clients: Map<SyncSocket, () => void> = new Map();
+  const _synced: Set<SyncSocket> = new Set();
+  const _acked: Map<string, number> = new Map();
+  let _last = app.state();
+  let _seq = 0;
+
+  for (const event of options.events) {
+    events.add(event);
+  }
+
+  /**
+   * Sends a message to a client, dropping it if the socket can't send.
+   *
+   * @param {SyncSocket} socket
+   * @param {SyncServerMessage} message
+   */
+  const send = (socket: SyncSocket, message: SyncServerMessage): void => {
+    try {
+      socket.send(JSON.stringify(message));
+    } catch (error) {
+      console.error("ShapeX: sending to a sync client failed.", error);
+    }
+  };
+
+  const stopObserving = app.observe({
+    commit: (record) => {
+      const patches = diffPatches(_last, record.state, paths);
+      _last = record.state;
+
+      if (patches.length === 0) {
+        return;
+      }
+
+      _seq++;
+
+      for (const socket of _synced) {
+        send(socket, { type: "patch", seq: _seq, patches });
+      }
+    },
+  });
+
+  /**
+   * Handles an event sent by a client, and acknowledges it once
+   * everything it set in motion has settled, so that the changes it
+   * made are part of the state as of the acknowledged sequence number.
+   * A failed event is acknowledged all the same, as resending it
+   * wouldn't make it succeed.
+   *
+   * @param {SyncSocket} socket
+   * @param {string} client
+   * @param {SyncClientMessage & { type: "event" }} message
+   * @returns {Promise<void>}
+   */
+  const handle = async (
+    socket: SyncSocket,
+    client: string,
+    message: SyncClientMessage & { type: "event" },
+  ): Promise<void> => {
+    const acked = _acked.get(client) ?? 0;
+
+    // Events resent after reconnecting may have been handled already.
+    if (message.id > acked && events.match(message.event).length > 0) {
+      try {
+        await app.dispatchAsync(message.event, message.data);
+      } catch (error) {
+        console.error("ShapeX: handling a sync client's event failed.", error);
+      }
+    }
+
+    _acked.set(client, Math.max(_acked.get(client) ?? 0, message.id));
+
+    if (_synced.has(socket)) {
+      send(socket, { type: "ack", id: message.id, seq: _seq });
+    }
+  };
+
+  /**
+   * Starts syncing with a client.
+   *
+   * @param {SyncSocket} socket
+   */
+  const connect = (socket: SyncSocket): void => {
+    let client: string | undefined;
+    // Events are handled one after another, so that they are
+    // acknowledged in the order they were sent.
+    let handling: Promise<void> = Promise.resolve();
+
+    const onMessage = (event: { data?: unknown }): void => {
+      const message = parse(event.data) as SyncClientMessage | undefined;
+
+      if (message?.type === "hello") {
+        client = message.client;
+        _synced.add(socket);
+        send(socket, {
+          type: "snapshot",
+          seq: _seq,
+          state: pick(app.state(), paths),
+          acked: _acked.get(client) ?? 0,
+        });
+
+        return;
+      }
+
+      if (message?.type !== "event" || client === undefined) {
+        return;
+      }
+
+      const from = client;
+
+      handling = handling.then(() => handle(socket, from, message));
+    };
+
+    const disconnect = (): void => {
+      socket.removeEventListener("message", onMessage);
+      socket.removeEventListener("close", disconnect);
+      _synced.delete(socket);
+      _clients.delete(socket);
+    };
+
+    socket.addEventListener("message", onMessage);
+    socket.addEventListener("close", disconnect);
+    _clients.set(socket, disconnect);
+  };
+
+  /**
+   * Stops syncing with every client.
+   */
+  const close = (): void => {
+    stopObserving();
+
+    for (const disconnect of [..._clients.values()]) {
+      disconnect();
+    }
+  };
+
+  return { connect, seq: () => _seq, close };
+};
+
+/**
+ * Syncs an instance's state with an authoritative server. The selected
+ * events are handled locally right away, so that their changes show
+ * optimistically, and sent to the server. Changes from the server
+ * replace the synced paths of state, with the local changes of events
+ * the server hasn't acknowledged yet applied on top, until the server
+ * acknowledges them. On connecting, state is resynced from a snapshot,
+ * and events the server didn't get are resent.
+ *
+ * @param {ShapeXInstance<T, any, any>} app The client's instance.
+ * @param {SyncClientOptions} options Options for syncing.
+ * @returns {SyncClient}
+ */
+export const syncClient = <T>(
+  app: ShapeXInstance<T, any, any>,
+  options: SyncClientOptions,
+): SyncClient => {
+  const events = patternTrie();
+  const paths = options.paths ?? ["$"];
+  const id = options.id ?? globalThis.crypto.randomUUID();
+  // Dispatches, by id, of pending events and the events they led to.
+  const _dispatches: Map<number, PendingEvent> = new Map();
+  let _pending: PendingEvent[] = [];
+  let _server: unknown;
+  let _socket: SyncSocket | undefined;
+  let _synced = false;
+  let _applying = false;
+  let _last = app.state();
+  let _eventId = 0;
+  let _seq = 0;
+
+  for (const event of options.events) {
+    events.add(event);
+  }
+
+  /**
+   * Sends a message to the server, if connected.
+   *
+   * @param {SyncClientMessage} message
+   */
+  const send = (message: SyncClientMessage): void => {
+    try {
+      _socket?.send(JSON.stringify(message));
+    } catch (error) {
+      console.error("ShapeX: sending to the sync server failed.", error);
+    }
+  };
+
+  /**
+   * Sends a pending event to the server.
+   *
+   * @param {PendingEvent} pending
+   */
+  const sendEvent = ({ id, event, data }: PendingEvent): void => {
+    send({ type: "event", id, event, data });
+  };
+
+  /**
+   * Replaces the synced paths of state with the server's, applying the
+   * local changes of pending events on top.
+   */
+  const reconcile = (): void => {
+    let state = app.state();
+
+    for (const path of paths) {
+      const value = getPath(_server, path);
+
+      state =
+        value === undefined
+          ? removePath(state, path)
+          : setPath(state, path, value);
+    }
+
+    for (const pending of _pending) {
+      state = applyPatches(state, pending.patches);
+    }
+
+    _applying = true;
+
+    try {
+      app.setState(state);
+    } finally {
+      _applying = false;
+    }
+  };
+
+  /**
+   * Drops the pending events the server has acknowledged.
+   *
+   * @param {number} acked The id of the last acknowledged event.
+   */
+  const acknowledge = (acked: number): void => {
+    _pending = _pending.filter((pending) => pending.id > acked);
+
+    for (const [dispatch, pending] of _dispatches) {
+      if (pending.id <= acked) {
+        _dispatches.delete(dispatch);
+      }
+    }
+  };
+
+  const stopObserving = app.observe({
+    dispatch: (record) => {
+      const parent =
+        record.parent !== undefined
+          ? _dispatches.get(record.parent)
+          : undefined;
+
+      // Events dispatched while handling a pending one are part of it.
+      if (parent) {
+        _dispatches.set(record.id, parent);
+        return;
+      }
+
+      if (_applying || events.match(record.event).length === 0) {
+        return;
+      }
+
+      const pending: PendingEvent = {
+        id: ++_eventId,
+        event: record.event,
+        data: record.data,
+        patches: [],
+      };
+
+      _pending.push(pending);
+      _dispatches.set(record.id, pending);
+
+      if (_synced) {
+        sendEvent(pending);
+      }
+    },
+    commit: (record) => {
+      const previous = _last;
+      _last = record.state;
+
+      const pending =
+        record.dispatch !== undefined
+          ? _dispatches.get(record.dispatch)
+          : undefined;
+
+      if (!_applying && pending) {
+        pending.patches.push(...diffPatches(previous, record.state, paths));
+      }
+    },
+  });
+
+  const onMessage = (event: { data?: unknown }): void => {
+    const message = parse(event.data) as SyncServerMessage | undefined;
+
+    switch (message?.type) {
+      case "snapshot":
+        _server = message.state;
+        _seq = message.seq;
+        _synced = true;
+        acknowledge(message.acked);
+        reconcile();
+        _pending.forEach(sendEvent);
+        break;
+
+      case "patch":
+        if (!_synced) {
+          break;
+        }
+
+        // A missed change means starting over from a snapshot.
+        if (message.seq !== _seq + 1) {
+          _synced = false;
+          send({ type: "hello", client: id });
+          break;
+        }
+
+        _server = applyPatches(_server, message.patches);
+        _seq = message.seq;
+        reconcile();
+        break;
+
+      case "ack":
+        acknowledge(message.id);
+        reconcile();
+        break;
+    }
+  };
+
+  const hello = (): void => {
+    send({ type: "hello", client: id });
+  };
+
+  const onClose = (): void => {
+    disconnect();
+  };
+
+  /**
+   * Stops listening to the current socket, if any.
+   */
+  const disconnect = (): void => {
+    _socket?.removeEventListener("open", hello);
+    _socket?.removeEventListener("message", onMessage);
+    _socket?.removeEventListener("close", onClose);
+    _socket = undefined;
+    _synced = false;
+  };
+
+  /**
+   * Starts syncing with the server over the given socket.
+   *
+   * @param {SyncSocket} socket
+   */
+  const connect = (socket: SyncSocket): void => {
+    disconnect();
+    _socket = socket;
+    socket.addEventListener("message", onMessage);
+    socket.addEventListener("close", onClose);
+
+    if (socket.readyState === 0) {
+      socket.addEventListener("open", hello);
+    } else {
+      hello();
+    }
+  };
+
+  /**
+   * Stops syncing.
+   */
+  const close = (): void => {
+    stopObserving();
+    disconnect();
+  };
+
+  return { connect, seq: () => _seq, pending: () => _pending.length, close };
+};
@@ -0,0 +1,238 @@
+import { describe, it, expect, vi } from "vitest";
+import { ShapeX } from "./shapex.ts";
+import { record, stub, testScheduler } from "./testing.ts";
+
+const todoApp = () => {
+  const $ = ShapeX({ todos: [] as string[], saved: false });
+
+  $.subscribe("add", (state, todo: string | undefined) => ({
+    state: { ...state, todos: [...state.todos, todo!] },
+    dispatch: { to: "save", with: todo },
+  }));
+  $.subscribe("save", (state) => ({
+    state: { ...state, saved: true },
+  }));
+
+  return $;
+};
+
+describe("record", () => {
+  it("records events in order, including nested dispatches", () => {
+    const $ = todoApp();
+    const recorder = record($);
+
+    $.dispatch("add", "Milk");
+
+    expect(recorder.events).toEqual([
+      { event: "add", data: "Milk", parent: undefined },
+      { event: "save", data: "Milk", parent: "add" },
+    ]);
+  });
+
+  it("records changes of state", () => {
+    const $ = todoApp();
+    const recorder = record($);
+
+    $.dispatch("add", "Milk");
+
+    expect(recorder.changes).toContainEqual({
+      path: "$.saved",
+      kind: "changed",
+      oldValue: false,
+      newValue: true,
+    });
+  });
+
+  it("expects events to be dispatched", () => {
+    const $ = todoApp();
+    const recorder = record($);
+
+    $.dispatch("add", "Milk");
+
+    expect(() => recorder.expectDispatched("save")).not.toThrow();
+    expect(() => recorder.expectDispatched("add", "Milk")).not.toThrow();
+    expect(() => recorder.expectDispatched("remove")).toThrow(
+      'Expected "remove" to be dispatched, but it wasn\'t.',
+    );
+    expect(() => recorder.expectDispatched("add", "Eggs")).toThrow(
+      'Expected "add" to be dispatched with "Eggs", but it was dispatched with "Milk".',
+    );
+  });
+
+  it("expects events regardless of their order", () => {
+    const $ = todoApp();
+    const recorder = record($);
+
+    $.dispatch("add", "Milk");
+    $.dispatch("add", "Eggs");
+
+    expect(() => recorder.expectDispatched("save", "Eggs")).not.toThrow();
+    expect(() => recorder.expectDispatched("add", "Milk")).not.toThrow();
+    expect(() => recorder.expectDispatched("add")).not.toThrow();
+    expect(recorder.events.map(({ data }) => data)).toEqual([
+      "Milk",
+      "Milk",
+      "Eggs",
+      "Eggs",
+    ]);
+  });
+
+  it("expects each dispatch only once", () => {
+    const $ = todoApp();
+    const recorder = record($);
+
+    $.dispatch("add", "Milk");
+    recorder.expectDispatched("add", "Milk");
+
+    expect(() => recorder.expectDispatched("add", "Milk")).toThrow(
+      'Expected "add" to be dispatched again, but it was dispatched once.',
+    );
+  });
+
+  it("expects paths of state to change", () => {
+    const $ = todoApp();
+    const recorder = record($);
+
+    $.dispatch("add", "Milk");
+
+    expect(() => recorder.expectChanged("$.todos", ["Milk"])).not.toThrow();
+    expect(() => recorder.expectChanged("$.saved")).not.toThrow();
+    expect(() => recorder.expectChanged("$.todos", [])).toThrow(
+      'Expected "$.todos" to change to [], but it changed to ["Milk"].',
+    );
+    expect(() => recorder.expectChanged("$.other")).toThrow(
+      'Expected "$.other" to change, but it didn\'t.',
+    );
+  });
+
+  it("expects no further dispatches", () => {
+    const $ = todoApp();
+    const recorder = record($);
+
+    $.dispatch("add", "Milk");
+    recorder.expectDispatched("add");
+
+    expect(() => recorder.expectNoFurtherDispatches()).toThrow(
+      'Expected no further dispatches, but got "save".',
+    );
+
+    recorder.expectDispatched("save");
+    expect(() => recorder.expectNoFurtherDispatches()).not.toThrow();
+  });
+
+  it("clears and stops recording", () => {
+    const $ = todoApp();
+    const recorder = record($);
+
+    $.dispatch("add", "Milk");
+    recorder.clear();
+    expect(recorder.events).toEqual([]);
+    expect(recorder.changes).toEqual([]);
+
+    recorder.stop();
+    $.dispatch("add", "Eggs");
+    expect(recorder.events).toEqual([]);
+  });
+});
+
+describe("stub", () => {
+  it("stubs out the subscriptions of an event", () => {
+    const $ = todoApp();
+    const cb = vi.fn();
+
+    $.subscribe("save", cb);
+    stub($, "save");
+    $.dispatch("add", "Milk");
+
+    expect(cb).not.toHaveBeenCalled();
+    expect($.state()).toEqual({ todos: ["Milk"], saved: false });
+  });
+
+  it("responds in place of the stubbed subscriptions once per dispatch", () => {
+    const $ = todoApp();
+    const cb = vi.fn();
+
+    $.subscribe("save", () => ({}));
+    $.subscribe("saved", cb);
+    stub($, "save", (state, todo: string) => ({
+      state: { ...state, todos: [...state.todos, `${todo} (stubbed)`] },
+      dispatch: { to: "saved" },
+    }));
+    $.dispatch("add", "Milk");
+
+    expect($.state().todos).toEqual(["Milk", "Milk (stubbed)"]);
+    expect(cb).toHaveBeenCalledTimes(1);
+  });
+
+  it("stubs out events matching a pattern until removed", () => {
+    const $ = ShapeX({ count: 0 });
+
+    $.subscribe("api/load", () => ({ state: { count: 1 } }));
+
+    const unstub = stub($, "api/*", { state: { count: 2 } });
+    $.dispatch("api/load");
+    expect($.state().count).toBe(2);
+
+    unstub();
+    $.dispatch("api/load");
+    expect($.state().count).toBe(1);
+  });
+});
+
+describe("testScheduler", () => {
+  it("runs timers when advanced", async () => {
+    const scheduler = testScheduler();
+    const cb = vi.fn();
+
+    scheduler.setTimeout(() => cb("b"), 20);
+    scheduler.setTimeout(() => cb("a"), 10);
+    const cleared = scheduler.setTimeout(() => cb("c"), 5);
+    scheduler.clearTimeout(cleared);
+
+    await scheduler.advance(15);
+    expect(cb.mock.calls).toEqual([["a"]]);
+    expect(scheduler.now()).toBe(15);
+
+    await scheduler.advance(5);
+    expect(cb.mock.calls).toEqual([["a"], ["b"]]);
+  });
+
+  it("drains async handlers waiting on it", async () => {
+    const scheduler = testScheduler();
+    const $ = ShapeX({ status: "idle", polls: 0 });
+
+    $.registerCoeffect("sleep", () => scheduler.sleep);
+    $.subscribe(
+      "poll",
+      async (state, _, { coeffects }) => {
+        await coeffects.sleep(1000);
+
+        return {
+          state: { status: "polled", polls: state.polls + 1 },
+          ...(state.polls < 2 ? { dispatch: { to: "poll" } } : {}),
+        };
+      },
+      { coeffects: ["sleep"] },
+    );
+
+    $.dispatch("poll");
+    await scheduler.drain($);
+
+    expect($.state()).toEqual({ status: "polled", polls: 3 });
+    expect(scheduler.now()).toBe(3000);
+  });
+
+  it("gives up draining timers that keep being scheduled", async () => {
+    const scheduler = testScheduler(10);
+    const $ = ShapeX({});
+    const reschedule = () => {
+      scheduler.setTimeout(reschedule, 1);
+    };
+
+    reschedule();
+
+    await expect(scheduler.drain($)).rejects.toThrow(
+      "Draining ran 10 timers without settling, as they keep being scheduled.",
+    );
+  });
+});
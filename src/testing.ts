@@ -0,0 +1,495 @@
+import type {
+  ShapeXInstance,
+  StateChange,
+  SubscriptionResponse,
+} from "./shapex.ts";
+import { patternTrie } from "./patterns.ts";
+
+/**
+ * A dispatched event as recorded by a recorder.
+ */
+export type RecordedEvent = {
+  event: string;
+  data: unknown;
+  /**
+   * The name of the event whose handling dispatched this one, if any.
+   */
+  parent: string | undefined;
+};
+
+/**
+ * Records what an instance does, and asserts on it.
+ */
+export type Recorder = {
+  /**
+   * Every dispatched event, in order, leaving out state change
+   * notifications.
+   */
+  events: RecordedEvent[];
+  /**
+   * Every change of state, in order.
+   */
+  changes: StateChange[];
+  /**
+   * Throw unless the event was dispatched, with the given data if any.
+   */
+  expectDispatched: (event: string, data?: unknown) => void;
+  /**
+   * Throw unless the path of state changed, to the given value if any.
+   */
+  expectChanged: (path: string, value?: unknown) => void;
+  /**
+   * Throw if any event was dispatched after the last one expected to
+   * be dispatched.
+   */
+  expectNoFurtherDispatches: () => void;
+  /**
+   * Forget everything recorded so far.
+   */
+  clear: () => void;
+  /**
+   * Stop recording.
+   */
+  stop: () => void;
+};
+
+/**
+ * Replaces the subscriptions of a stubbed event, given its state and
+ * data.
+ */
+export type StubCallback<T, D = unknown> = (
+  state: T,
+  data: D,
+) => SubscriptionResponse<T, unknown> | void;
+
+/**
+ * A clock that async handlers wait on in tests instead of real timers,
+ * moved forward only when told to.
+ */
+export type TestScheduler = {
+  /**
+   * The current time, in milliseconds since the scheduler was created.
+   */
+  now: () => number;
+  /**
+   * Resolves once the clock has moved forward by the given time.
+   */
+  sleep: (ms: number) => Promise<void>;
+  setTimeout: (callback: () => void, ms?: number) => number;
+  clearTimeout: (id: number) => void;
+  /**
+   * Move the clock forward by the given time, running the timers that
+   * are due in the order they are due.
+   */
+  advance: (ms: number) => Promise<void>;
+  /**
+   * Run timers, in the order they are due, until the instance has no
+   * work in flight and no timers are left.
+   */
+  drain: <T>(app: ShapeXInstance<T, any, any>) => Promise<void>;
+};
+
+/**
+ * Describes a value in an assertion's message.
+ *
+ * @param {unknown} value
+ * @returns {string}
+ */
+const describeValue = (value: unknown): string => {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+/**
+ * Whether two values are deeply equal, comparing plain objects and
+ * arrays by their contents.
+ *
+ * @param {unknown} a
+ * @param {unknown} b
+ * @returns {boolean}
+ */
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b) ||
+    Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+  ) {
+    return false;
+  }
+
+  if (a instanceof Date) {
+    return a.getTime() === (b as Date).getTime();
+  }
+
+  const keys = Object.keys(a);
+
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every(
+      (key) =>
+        Object.hasOwn(b, key) &&
+        isEqual(
+          (a as Record<string, unknown>)[key],
+          (b as Record<string, unknown>)[key],
+        ),
+    )
+  );
+};
+
+/**
+ * Records every event an instance dispatches, including the events
+ * dispatched while handling others, and every change of its state.
+ * State change notifications aren't recorded as events, as the changes
+ * are.
+ *
+ * @param {ShapeXInstance<T, any, any>} app The instance to record.
+ * @returns {Recorder}
+ */
+export const record = <T>(app: ShapeXInstance<T, any, any>): Recorder => {
+  const events: RecordedEvent[] = [];
+  const changes: StateChange[] = [];
+  const _names: Map<number, string> = new Map();
+  // Events from here on haven't been expected to be dispatched.
+  let _expected = 0;
+  // Events that satisfied an expectation, which can't satisfy another.
+  const _consumed: Set<number> = new Set();
+
+  const stop = app.observe({
+    dispatch: (record) => {
+      _names.set(record.id, record.event);
+
+      if (!record.event.startsWith("$.")) {
+        events.push({
+          event: record.event,
+          data: record.data,
+          parent:
+            record.parent !== undefined ? _names.get(record.parent) : undefined,
+        });
+      }
+    },
+    commit: (record) => {
+      changes.push(...record.changes);
+    },
+  });
+
+  /**
+   * Throws unless the event was dispatched, with the given data if any.
+   *
+   * @param {string} event
+   * @param {unknown} data
+   */
+  const expectDispatched = (event: string, ...data: [unknown?]): void => {
+    const matches = (recorded: RecordedEvent): boolean =>
+      recorded.event === event &&
+      (data.length === 0 || isEqual(recorded.data, data[0]));
+
+    // Each dispatch satisfies a single expectation, looking after the
+    // last event expected first. The order events were dispatched in
+    // isn't checked.
+    const unconsumed = (recorded: RecordedEvent, index: number): boolean =>
+      !_consumed.has(index) && matches(recorded);
+    let index = events.findIndex(
+      (recorded, index) => index >= _expected && unconsumed(recorded, index),
+    );
+
+    if (index === -1) {
+      index = events.findIndex(unconsumed);
+    }
+
+    if (index !== -1) {
+      _consumed.add(index);
+      _expected = Math.max(_expected, index + 1);
+      return;
+    }
+
+    const times = events.filter(matches).length;
+
+    if (times > 0) {
+      throw new Error(
+        `Expected "${event}" to be dispatched again, but it was dispatched ${times === 1 ? "once" : `${times} times`}.`,
+      );
+    }
+
+    const dispatched = events.filter((recorded) => recorded.event === event);
+
+    if (data.length === 0 || dispatched.length === 0) {
+      throw new Error(`Expected "${event}" to be dispatched, but it wasn't.`);
+    }
+
+    throw new Error(
+      `Expected "${event}" to be dispatched with ${describeValue(data[0])}, but it was dispatched with ${dispatched.map((recorded) => describeValue(recorded.data)).join(", ")}.`,
+    );
+  };
+
+  /**
+   * Throws unless the path of state changed, to the given value if any.
+   *
+   * @param {string} path
+   * @param {unknown} value
+   */
+  const expectChanged = (path: string, ...value: [unknown?]): void => {
+    const changed = changes.filter((change) => change.path === path);
+    const last = changed[changed.length - 1];
+
+    if (!last) {
+      throw new Error(`Expected "${path}" to change, but it didn't.`);
+    }
+
+    if (value.length > 0 && !isEqual(last.newValue, value[0])) {
+      throw new Error(
+        `Expected "${path}" to change to ${describeValue(value[0])}, but it changed to ${describeValue(last.newValue)}.`,
+      );
+    }
+  };
+
+  /**
+   * Throws if any event was dispatched after the last one expected to
+   * be dispatched.
+   */
+  const expectNoFurtherDispatches = (): void => {
+    const further = events.slice(_expected);
+
+    if (further.length > 0) {
+      throw new Error(
+        `Expected no further dispatches, but got ${further.map((recorded) => `"${recorded.event}"`).join(", ")}.`,
+      );
+    }
+  };
+
+  /**
+   * Forgets everything recorded so far.
+   */
+  const clear = (): void => {
+    events.length = 0;
+    changes.length = 0;
+    _expected = 0;
+    _consumed.clear();
+  };
+
+  return {
+    events,
+    changes,
+    expectDispatched,
+    expectChanged,
+    expectNoFurtherDispatches,
+    clear,
+    stop,
+  };
+};
+
+/**
+ * Stubs out the subscriptions of an event, or of the events matching a
+ * pattern, so that they aren't called. If a replacement is given, its
+ * response is used once per dispatch instead of theirs, as long as the
+ * event has any subscriptions.
+ *
+ * @param {ShapeXInstance<T, any, any>} app The instance to stub.
+ * @param {string} event The event, or pattern of events, to stub.
+ * @param {StubCallback<T, D> | SubscriptionResponse<T, unknown>} replacement
+ * @returns {() => void} A function that removes the stub.
+ */
+export const stub = <T, D = unknown>(
+  app: ShapeXInstance<T, any, any>,
+  event: string,
+  replacement?: StubCallback<T, D> | SubscriptionResponse<T, unknown>,
+): (() => void) => {
+  const events = patternTrie();
+  let _answered = true;
+
+  events.add(event);
+
+  const stopObserving = app.observe({
+    dispatch: (record) => {
+      if (events.match(record.event).length > 0) {
+        _answered = false;
+      }
+    },
+  });
+
+  const removeInterceptor = app.intercept({
+    name: "stub",
+    before: (context) => {
+      if (events.match(context.event).length === 0) {
+        return;
+      }
+
+      // Only the first subscription called for a dispatch responds.
+      if (_answered) {
+        context.response = undefined;
+        return;
+      }
+
+      _answered = true;
+      context.response =
+        typeof replacement === "function"
+          ? replacement(context.state, context.data as D)
+          : replacement;
+    },
+  });
+
+  return () => {
+    stopObserving();
+    removeInterceptor();
+  };
+};
+
+/**
+ * Waits for a task, so that whatever was waiting for promises that
+ * have resolved gets to move on. Uses a message, as tests may fake
+ * timers.
+ *
+ * @returns {Promise<void>}
+ */
+const tick = (): Promise<void> => {
+  return new Promise((resolve) => {
+    const { port1, port2 } = new MessageChannel();
+
+    port1.addEventListener("message", () => {
+      port1.close();
+      port2.close();
+      resolve();
+    });
+    port1.start();
+    port2.postMessage(undefined);
+  });
+};
+
+/**
+ * Creates a clock for async handlers to wait on in tests, instead of
+ * real timers. Handlers get to it like to anything else they depend on,
+ * e.g. through a coeffect, and tests move it forward with `advance()`,
+ * or run everything that is pending with `drain()`.
+ *
+ * @param {number} limit How many timers `drain()` runs at most before
+ * giving up, e.g. as a timer keeps scheduling another.
+ * @returns {TestScheduler}
+ */
+export const testScheduler = (limit = 1000): TestScheduler => {
+  const _timers: Map<number, { at: number; callback: () => void }> = new Map();
+  const _waiting: Set<() => void> = new Set();
+  let _now = 0;
+  let _timerId = 0;
+
+  const setTimeout = (callback: () => void, ms = 0): number => {
+    _timers.set(++_timerId, { at: _now + Math.max(0, ms), callback });
+
+    for (const resolve of _waiting) {
+      resolve();
+    }
+
+    _waiting.clear();
+
+    return _timerId;
+  };
+
+  const clearTimeout = (id: number): void => {
+    _timers.delete(id);
+  };
+
+  const sleep = (ms: number): Promise<void> => {
+    return new Promise((resolve) => {
+      setTimeout(resolve, ms);
+    });
+  };
+
+  /**
+   * Takes out the timer that is due first, if any, due by the given
+   * time.
+   *
+   * @param {number} by
+   * @returns {(() => void) | undefined}
+   */
+  const due = (by: number): (() => void) | undefined => {
+    let next: [number, { at: number; callback: () => void }] | undefined;
+
+    for (const entry of _timers) {
+      if (entry[1].at <= by && (!next || entry[1].at < next[1].at)) {
+        next = entry;
+      }
+    }
+
+    if (!next) {
+      return undefined;
+    }
+
+    _timers.delete(next[0]);
+    _now = next[1].at;
+
+    return next[1].callback;
+  };
+
+  /**
+   * Resolves once there is a timer to run.
+   *
+   * @returns {Promise<void>}
+   */
+  const scheduled = (): Promise<void> => {
+    if (_timers.size > 0) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      _waiting.add(resolve);
+    });
+  };
+
+  const advance = async (ms: number): Promise<void> => {
+    const until = _now + ms;
+
+    for (let callback = due(until); callback; callback = due(until)) {
+      callback();
+      await tick();
+    }
+
+    _now = until;
+  };
+
+  const drain = async <T>(app: ShapeXInstance<T, any, any>): Promise<void> => {
+    for (let ran = 0; ; ran++) {
+      // Work in flight either settles, or waits for a timer.
+      const settled = await Promise.race([
+        app.settled().then(() => true),
+        scheduled().then(() => false),
+      ]);
+
+      await tick();
+
+      const callback = due(Infinity);
+
+      if (!callback) {
+        if (settled) {
+          return;
+        }
+
+        continue;
+      }
+
+      if (ran >= limit) {
+        throw new Error(
+          `Draining ran ${limit} timers without settling, as they keep being scheduled.`,
+        );
+      }
+
+      callback();
+    }
+  };
+
+  return {
+    now: () => _now,
+    sleep,
+    setTimeout,
+    clearTimeout,
+    advance,
+    drain,
+  };
+};